@@ -0,0 +1,147 @@
+// server/adminApi.js
+// 運用者向けの管理 API (ADMIN_TOKEN を Bearer トークンとして送ったリクエストだけ受け付ける)
+//   GET    /admin/rooms              部屋の一覧 (参加者名・共有者など)
+//   DELETE /admin/rooms/:roomCode    部屋を強制的に閉じる
+//   POST   /admin/notice             全部屋にメンテナンスのお知らせを送る ({ "message": "..." })
+const crypto = require('crypto')
+const { logger: defaultLogger } = require('./logger')
+
+const ADMIN_PATH_PREFIX = '/admin/'
+const MAX_BODY_BYTES = 16 * 1024
+const MAX_NOTICE_LENGTH = 500
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { 'Content-Type': 'application/json; charset=utf-8' })
+  res.end(JSON.stringify(body))
+}
+
+// タイミング差でトークンを推測されないよう、ハッシュ同士を定数時間で比較する
+function isValidToken(expected, authorization) {
+  const match = /^Bearer (.+)$/.exec(authorization || '')
+  if (!match) return false
+  const digest = (value) => crypto.createHash('sha256').update(value).digest()
+  return crypto.timingSafeEqual(digest(expected), digest(match[1]))
+}
+
+function readJsonBody(req) {
+  return new Promise((resolve, reject) => {
+    let body = ''
+    req.setEncoding('utf8')
+    req.on('data', (chunk) => {
+      body += chunk
+      if (body.length > MAX_BODY_BYTES) {
+        reject(new Error('Request body is too large'))
+        req.destroy()
+      }
+    })
+    req.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {})
+      } catch (error) {
+        reject(error)
+      }
+    })
+    req.on('error', reject)
+  })
+}
+
+// 管理画面に返す部屋の情報 (合言葉のハッシュや入室チケットは含めない)
+function summarizeRoom(roomCode, room) {
+  return {
+    roomCode,
+    participants: Object.entries(room.participants).map(([peerId, name]) => ({
+      peerId,
+      name,
+    })),
+    hostPeerId: room.hostPeerId,
+    sharerPeerIds: room.sharerPeerIds,
+    isLocked: room.isLocked,
+    approvalRequired: room.approvalRequired,
+    maxParticipants: room.maxParticipants,
+    pendingJoinCount: Object.keys(room.pendingJoins).length,
+  }
+}
+
+// リクエストを処理したら true を返す (/admin/ 以外は false で、呼び出し側に任せる)
+function createAdminApi({
+  token,
+  listRooms,
+  closeRoom,
+  broadcastNotice,
+  logger = defaultLogger,
+}) {
+  const routes = async (req, res) => {
+    const { pathname } = new URL(req.url, 'http://localhost')
+
+    if (pathname === '/admin/rooms' && req.method === 'GET') {
+      const rooms = await listRooms()
+      sendJson(res, 200, {
+        rooms: Object.entries(rooms).map(([roomCode, room]) =>
+          summarizeRoom(roomCode, room)
+        ),
+      })
+      return
+    }
+
+    const closeMatch = /^\/admin\/rooms\/([^/]+)$/.exec(pathname)
+    if (closeMatch && req.method === 'DELETE') {
+      const roomCode = decodeURIComponent(closeMatch[1])
+      if (!(await closeRoom(roomCode))) {
+        sendJson(res, 404, { error: 'Room not found' })
+        return
+      }
+      sendJson(res, 200, { success: true, roomCode })
+      return
+    }
+
+    if (pathname === '/admin/notice' && req.method === 'POST') {
+      let body
+      try {
+        body = await readJsonBody(req)
+      } catch (error) {
+        sendJson(res, 400, { error: 'Invalid JSON body' })
+        return
+      }
+      const message =
+        typeof body.message === 'string' ? body.message.trim() : ''
+      if (!message || message.length > MAX_NOTICE_LENGTH) {
+        sendJson(res, 400, {
+          error: `message must be 1-${MAX_NOTICE_LENGTH} characters`,
+        })
+        return
+      }
+      await broadcastNotice(message)
+      sendJson(res, 200, { success: true })
+      return
+    }
+
+    sendJson(res, 404, { error: 'Not found' })
+  }
+
+  // log はリクエストごとのロガー (requestId 付き)
+  return (req, res, log = logger) => {
+    if (!req.url.startsWith(ADMIN_PATH_PREFIX)) return false
+
+    // トークン未設定なら管理 API 自体を無効にする
+    if (!token) {
+      sendJson(res, 404, { error: 'Not found' })
+      return true
+    }
+    if (!isValidToken(token, req.headers.authorization)) {
+      log.warn('Rejected admin request with an invalid token', {
+        method: req.method,
+        path: req.url,
+      })
+      sendJson(res, 401, { error: 'Unauthorized' })
+      return true
+    }
+
+    routes(req, res).catch((error) => {
+      log.error('Admin request failed', { method: req.method, error })
+      if (!res.headersSent) sendJson(res, 500, { error: 'Internal error' })
+    })
+    return true
+  }
+}
+
+module.exports = { createAdminApi }
@@ -0,0 +1,41 @@
+// server/displayName.js
+// 参加者の表示名の正規化と、同じ部屋での重複の解消
+// 前後の空白を除き Unicode の NFKC で揃えてから、名前入力欄 (NameInput) と同じ 16 文字で切り詰める
+// 同じ部屋に同じ名前の人がいれば "ゲスト (2)" のように番号を付ける (番号を含めて 16 文字に収める)
+const MAX_DISPLAY_NAME_LENGTH = 16
+
+// 正規化した名前を返す (空になる場合は空文字)
+function normalizeDisplayName(name) {
+  if (typeof name !== 'string') return ''
+  const normalized = name.normalize('NFKC').trim()
+  // サロゲートペアの途中で切らないよう、コードポイント単位で数える
+  return Array.from(normalized)
+    .slice(0, MAX_DISPLAY_NAME_LENGTH)
+    .join('')
+    .trim()
+}
+
+// 番号を付けた名前 (長い名前は番号の分だけ元の名前を縮める)
+function withSuffix(name, suffix) {
+  const label = ` (${suffix})`
+  const base = Array.from(name)
+    .slice(0, MAX_DISPLAY_NAME_LENGTH - label.length)
+    .join('')
+    .trim()
+  return `${base}${label}`
+}
+
+// 使われていない名前を返す (takenNames は同じ部屋の他の参加者の名前)
+function resolveDuplicateName(name, takenNames) {
+  const taken = new Set(takenNames)
+  if (!taken.has(name)) return name
+  let suffix = 2
+  while (taken.has(withSuffix(name, suffix))) suffix += 1
+  return withSuffix(name, suffix)
+}
+
+module.exports = {
+  MAX_DISPLAY_NAME_LENGTH,
+  normalizeDisplayName,
+  resolveDuplicateName,
+}
@@ -0,0 +1,86 @@
+// server/iceServers.js
+// クライアントに配る STUN / TURN サーバーの一覧
+// TURN の認証情報は共有シークレットから期限付きで発行する (coturn の use-auth-secret と同じ方式)
+//   STUN_URLS                    カンマ区切り (既定: Google の公開 STUN。LAN_MODE=1 なら無し)
+//   TURN_URLS                    カンマ区切り (例: turn:localhost:3478?transport=udp)
+//   TURN_SECRET                  TURN サーバーの static-auth-secret と同じ値
+//   TURN_CREDENTIAL_TTL_SECONDS  認証情報の有効期間 (既定 1 時間)
+//
+// ローカルで試す場合の例 (coturn):
+//   turnserver -n --listening-port=3478 --use-auth-secret --static-auth-secret=devsecret --realm=addcan.local
+//   TURN_URLS=turn:localhost:3478 TURN_SECRET=devsecret node server.js
+//
+// LAN モード (LAN_MODE=1) では外部の STUN を使わず、同じ LAN 内のホスト候補だけで繋ぐ
+// (STUN_URLS / TURN_URLS で LAN 内のサーバーを明示した場合はそれを使う)
+const crypto = require('crypto')
+const { logger: defaultLogger } = require('./logger')
+
+const DEFAULT_STUN_URLS = ['stun:stun.l.google.com:19302']
+const DEFAULT_TURN_CREDENTIAL_TTL_SECONDS = 60 * 60
+
+function parseUrlList(value) {
+  return (value || '')
+    .split(',')
+    .map((url) => url.trim())
+    .filter(Boolean)
+}
+
+// ユーザー名は "<有効期限 (UNIX 秒)>:<Peer ID>"、パスワードはその HMAC-SHA1 (TURN REST API の形式)
+function issueTurnCredential(secret, userId, expiresAt) {
+  const username = `${expiresAt}:${userId}`
+  const credential = crypto
+    .createHmac('sha1', secret)
+    .update(username)
+    .digest('base64')
+  return { username, credential }
+}
+
+// userId (Peer ID) ごとに ICE サーバーの一覧を返す関数を作る
+function createIceServerProvider({
+  stunUrls = DEFAULT_STUN_URLS,
+  turnUrls = [],
+  turnSecret = '',
+  ttlSeconds = DEFAULT_TURN_CREDENTIAL_TTL_SECONDS,
+  now = Date.now,
+  logger = defaultLogger,
+} = {}) {
+  if (turnUrls.length > 0 && !turnSecret) {
+    logger.warn(
+      'TURN_URLS is set but TURN_SECRET is missing. TURN servers will not be offered.'
+    )
+  }
+  const useTurn = turnUrls.length > 0 && !!turnSecret
+
+  return (userId) => {
+    const iceServers = []
+    if (stunUrls.length > 0) iceServers.push({ urls: stunUrls })
+    if (useTurn) {
+      const expiresAt = Math.floor(now() / 1000) + ttlSeconds
+      iceServers.push({
+        urls: turnUrls,
+        ...issueTurnCredential(turnSecret, userId, expiresAt),
+      })
+    }
+    return iceServers
+  }
+}
+
+// 環境変数から設定を読む
+function createIceServerProviderFromEnv(env = process.env, { logger } = {}) {
+  const defaultStunUrls = env.LAN_MODE === '1' ? [] : DEFAULT_STUN_URLS
+  return createIceServerProvider({
+    stunUrls: env.STUN_URLS ? parseUrlList(env.STUN_URLS) : defaultStunUrls,
+    turnUrls: parseUrlList(env.TURN_URLS),
+    turnSecret: env.TURN_SECRET || '',
+    ttlSeconds:
+      Number(env.TURN_CREDENTIAL_TTL_SECONDS) ||
+      DEFAULT_TURN_CREDENTIAL_TTL_SECONDS,
+    logger,
+  })
+}
+
+module.exports = {
+  createIceServerProvider,
+  createIceServerProviderFromEnv,
+  issueTurnCredential,
+}
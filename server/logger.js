@@ -0,0 +1,90 @@
+// server/logger.js
+// 1 行 1 JSON の構造化ログ
+//   LOG_LEVEL  debug / info (既定) / warn / error / silent
+// 例: {"time":"2025-01-01T00:00:00.000Z","level":"info","msg":"Room created","socketId":"...","roomCode":"room-abc123"}
+// 参加者名や合言葉などは値を伏せて出力する (REDACTED_KEYS)
+const LEVELS = { debug: 10, info: 20, warn: 30, error: 40, silent: Infinity }
+const DEFAULT_LEVEL = 'info'
+
+// この名前の項目は、どの深さにあっても値を出さない
+const REDACTED_KEYS = new Set([
+  'name',
+  'participants', // { [peerId]: 参加者名 }
+  'passcode',
+  'sessionToken',
+  'restoreToken',
+  'admissionTicket',
+  'ticket',
+  'credential',
+  'authorization',
+])
+const REDACTED = '[REDACTED]'
+const MAX_DEPTH = 5
+
+function resolveLevel(level) {
+  if (!level) return DEFAULT_LEVEL
+  if (!Object.hasOwn(LEVELS, level)) {
+    throw new Error(`Unknown LOG_LEVEL: ${level}`)
+  }
+  return level
+}
+
+// ログに載せられる形にする (名前などを伏せ、Error は message と stack にする)
+function sanitize(value, depth = 0) {
+  if (value instanceof Error) {
+    return { name: value.name, message: value.message, stack: value.stack }
+  }
+  if (!value || typeof value !== 'object') return value
+  if (depth >= MAX_DEPTH) return '[Truncated]'
+  if (Array.isArray(value))
+    return value.map((item) => sanitize(item, depth + 1))
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [
+      key,
+      REDACTED_KEYS.has(key) ? REDACTED : sanitize(item, depth + 1),
+    ])
+  )
+}
+
+// bindings はこのロガーの全行に付ける項目 (socketId や requestId などの相関 ID)
+function createLogger({
+  level = process.env.LOG_LEVEL,
+  bindings = {},
+  write = (line, entryLevel) =>
+    (LEVELS[entryLevel] >= LEVELS.warn ? process.stderr : process.stdout).write(
+      `${line}\n`
+    ),
+} = {}) {
+  const levelName = resolveLevel(level)
+  const threshold = LEVELS[levelName]
+
+  const log = (entryLevel, msg, fields) => {
+    if (LEVELS[entryLevel] < threshold) return
+    const entry = {
+      time: new Date().toISOString(),
+      level: entryLevel,
+      msg,
+      ...sanitize({ ...bindings, ...fields }),
+    }
+    write(JSON.stringify(entry), entryLevel)
+  }
+
+  return {
+    debug: (msg, fields) => log('debug', msg, fields),
+    info: (msg, fields) => log('info', msg, fields),
+    warn: (msg, fields) => log('warn', msg, fields),
+    error: (msg, fields) => log('error', msg, fields),
+    // 項目を足したロガーを作る (レベルと出力先は引き継ぐ)
+    child: (childBindings) =>
+      createLogger({
+        level: levelName,
+        bindings: { ...bindings, ...childBindings },
+        write,
+      }),
+  }
+}
+
+// プロセス全体で使うロガー (各モジュールは child で component を付けて使う)
+const logger = createLogger()
+
+module.exports = { createLogger, logger, REDACTED }
@@ -0,0 +1,169 @@
+// server/metrics.js
+// /metrics で公開するメトリクス (Prometheus のテキスト形式)
+// 部屋数などの現在値はストアから毎回数え、カウンターと処理時間はこのプロセス分を集計する
+const { logger: defaultLogger } = require('./logger')
+
+// イベントハンドラの処理時間 (秒) のバケット
+const HANDLER_DURATION_BUCKETS = [0.001, 0.005, 0.01, 0.05, 0.1, 0.5, 1]
+// 1 部屋あたりの参加人数のバケット
+const ROOM_SIZE_BUCKETS = [1, 2, 3, 4, 6, 8, 10, 16]
+
+function escapeLabelValue(value) {
+  return String(value)
+    .replace(/\\/g, '\\\\')
+    .replace(/"/g, '\\"')
+    .replace(/\n/g, '\\n')
+}
+
+function formatLabels(labels) {
+  const entries = Object.entries(labels)
+  if (entries.length === 0) return ''
+  const body = entries
+    .map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+    .join(',')
+  return `{${body}}`
+}
+
+function formatHeader(name, help, type) {
+  return [`# HELP ${name} ${help}`, `# TYPE ${name} ${type}`]
+}
+
+// --- カウンター: ラベルの組み合わせごとに加算する ---
+function createCounter(name, help) {
+  const values = new Map() // ラベルの JSON -> { labels, value }
+
+  return {
+    inc(labels = {}, amount = 1) {
+      const key = JSON.stringify(labels)
+      const entry = values.get(key) || { labels, value: 0 }
+      entry.value += amount
+      values.set(key, entry)
+    },
+    collect() {
+      const lines = formatHeader(name, help, 'counter')
+      if (values.size === 0) lines.push(`${name} 0`)
+      values.forEach(({ labels, value }) => {
+        lines.push(`${name}${formatLabels(labels)} ${value}`)
+      })
+      return lines
+    },
+  }
+}
+
+// --- ヒストグラム: ラベルの組み合わせごとにバケットへ振り分ける ---
+function createHistogram(name, help, buckets) {
+  const series = new Map() // ラベルの JSON -> { labels, counts, sum, count }
+
+  const observe = (labels, value) => {
+    const key = JSON.stringify(labels)
+    let entry = series.get(key)
+    if (!entry) {
+      entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 }
+      series.set(key, entry)
+    }
+    buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index] += 1
+    })
+    entry.sum += value
+    entry.count += 1
+  }
+
+  const collect = () => {
+    const lines = formatHeader(name, help, 'histogram')
+    series.forEach(({ labels, counts, sum, count }) => {
+      buckets.forEach((bound, index) => {
+        const bucketLabels = formatLabels({ ...labels, le: bound })
+        lines.push(`${name}_bucket${bucketLabels} ${counts[index]}`)
+      })
+      const infLabels = formatLabels({ ...labels, le: '+Inf' })
+      lines.push(`${name}_bucket${infLabels} ${count}`)
+      lines.push(`${name}_sum${formatLabels(labels)} ${sum}`)
+      lines.push(`${name}_count${formatLabels(labels)} ${count}`)
+    })
+    return lines
+  }
+
+  return { observe, collect }
+}
+
+// logger は observeHandler に接続ごとのロガーが渡されなかった場合に使う
+function createMetrics({ logger = defaultLogger } = {}) {
+  const joins = createCounter(
+    'addcan_joins_total',
+    'Participants that joined a room.'
+  )
+  const leaves = createCounter(
+    'addcan_leaves_total',
+    'Participants that left a room (including kicks and expired grace periods).'
+  )
+  const joinRejections = createCounter(
+    'addcan_join_rejections_total',
+    'Join attempts rejected by the server, by error code.'
+  )
+  const handlerDuration = createHistogram(
+    'addcan_event_handler_duration_seconds',
+    'Time spent handling a socket.io event.',
+    HANDLER_DURATION_BUCKETS
+  )
+
+  // ハンドラを包み、終わるまで (async なら Promise が決着するまで) の時間を記録する
+  // (ハンドラが投げたエラーは log に出す。接続ごとのロガーを渡せばソケットの ID も載る)
+  const observeHandler =
+    (event, handler, log = logger) =>
+    async (...args) => {
+      const startedAt = process.hrtime.bigint()
+      try {
+        return await handler(...args)
+      } catch (error) {
+        log.error('Unhandled error in event handler', { event, error })
+      } finally {
+        const seconds = Number(process.hrtime.bigint() - startedAt) / 1e9
+        handlerDuration.observe({ event }, seconds)
+      }
+    }
+
+  // 部屋の現在値 (rooms はストアの listRooms の結果) とあわせてテキストを組み立てる
+  const render = (rooms) => {
+    const roomList = Object.values(rooms)
+    const roomSizes = createHistogram(
+      'addcan_room_size',
+      'Current number of participants per room.',
+      ROOM_SIZE_BUCKETS
+    )
+    let participantCount = 0
+    let shareCount = 0
+    roomList.forEach((room) => {
+      const size = Object.keys(room.participants).length
+      participantCount += size
+      shareCount += room.sharerPeerIds.length
+      roomSizes.observe({}, size)
+    })
+
+    const lines = [
+      ...formatHeader('addcan_rooms_active', 'Rooms that exist now.', 'gauge'),
+      `addcan_rooms_active ${roomList.length}`,
+      ...formatHeader(
+        'addcan_participants_active',
+        'Participants in all rooms (including seats held for reconnects).',
+        'gauge'
+      ),
+      `addcan_participants_active ${participantCount}`,
+      ...formatHeader(
+        'addcan_screen_shares_active',
+        'Screen shares in all rooms (a room can have several at once).',
+        'gauge'
+      ),
+      `addcan_screen_shares_active ${shareCount}`,
+      ...roomSizes.collect(),
+      ...joins.collect(),
+      ...leaves.collect(),
+      ...joinRejections.collect(),
+      ...handlerDuration.collect(),
+    ]
+    return `${lines.join('\n')}\n`
+  }
+
+  return { joins, leaves, joinRejections, observeHandler, render }
+}
+
+module.exports = { createMetrics }
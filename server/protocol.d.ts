@@ -0,0 +1,368 @@
+// server/protocol.d.ts
+// socket.io のイベントとペイロードの型 (protocol.js の型定義)
+// クライアントは src/app/type.ts 経由で読み込み、Socket<ServerToClientEvents, ClientToServerEvents> として使う
+
+// --- 接続 ---
+// プロトコルのバージョン (protocol.js の PROTOCOL_VERSION と同じ値)
+export type ProtocolVersion = 5
+
+// 接続時に handshake.auth で送る情報
+export type HandshakeAuth = {
+  protocolVersion: ProtocolVersion
+}
+
+// 対応していないバージョンで接続しようとした (connect_error の data)
+export type VersionMismatchData = {
+  code: 'VERSION_MISMATCH'
+  clientVersion: number | null // バージョンを送らない古いクライアントは null
+  serverVersion: number
+  supportedVersions: number[]
+}
+
+export type ServerParticipants = {
+  [peerId: string]: string
+}
+
+// サーバーが持つ参加者ごとの状態 (後から入った人にも room-state で渡される)
+export type ParticipantState = {
+  isMuted: boolean
+  isSharing: boolean
+}
+
+export type ParticipantStates = {
+  [peerId: string]: ParticipantState
+}
+
+// --- 入室 ---
+export type JoinRoomPayload = {
+  roomCode: string
+  peerId?: string // 待合室に入る場合は無い (通話を始める前に待機するため)
+  name: string
+  passcode?: string // 合言葉 (部屋作成時は設定、参加時は照合に使われる)
+  maxParticipants?: number // 定員 (部屋作成時のみ有効)
+  approvalRequired?: boolean // 承認制にするか (部屋作成時のみ有効)
+  admissionTicket?: string // 待合室でホストに許可された時に発行されるチケット
+  sessionToken?: string // リロード・再接続時に猶予中の席を取り戻すためのトークン
+  restoreToken?: string // server-restarting で渡された部屋の控え (再起動で消えた部屋を作り直す)
+  isMuted?: boolean // 入室時のミュート状態 (省略すると、新しく入る場合はミュートなし・席に戻る場合は元のまま)
+}
+
+// サーバーが入室を拒否した理由
+export type JoinErrorCode =
+  | 'PASSCODE_REQUIRED'
+  | 'INVALID_PASSCODE'
+  | 'ROOM_FULL'
+  | 'JOIN_DENIED'
+  | 'ROOM_LOCKED'
+  | 'ROOM_NOT_FOUND'
+  | 'RATE_LIMITED'
+  | 'INVALID_PAYLOAD'
+
+export type JoinRejectedPayload = {
+  code: JoinErrorCode
+  retryAfterMs?: number // RATE_LIMITED の場合、再試行できるまでの時間
+}
+
+export type RoomStatePayload = {
+  participants: ServerParticipants
+  participantStates: ParticipantStates // 自分を含む全員の状態
+  currentSharerIds: string[] // 共有を始めた順
+  maxConcurrentShares: number // 同時に画面共有できる人数
+  hostPeerId: string | null
+  isLocked: boolean
+  sessionToken: string // 再接続時に席を取り戻すためのトークン
+  name: string // 他の参加者に表示される自分の名前 (正規化し、重複していれば "名前 (2)" のように番号が付く)
+}
+
+export type UserJoinedPayload = {
+  peerId: string
+  name: string
+  hostPeerId: string | null
+}
+
+// 参加者のミュート・画面共有の状態が変わった (ミュートしたまま入ってきた場合も届く)
+export type ParticipantUpdatedPayload = ParticipantState & {
+  peerId: string
+}
+
+export type SetMutePayload = {
+  isMuted: boolean
+}
+
+export type UserLeftPayload = {
+  peerId: string
+}
+
+export type CheckRoomExistsPayload = {
+  roomCode: string
+  passcode?: string
+  sessionToken?: string
+}
+
+export type CheckRoomExistsResponse = {
+  exists: boolean
+  error?: JoinErrorCode
+  approvalRequired?: boolean // 承認制の部屋 (待合室を経由する必要がある)
+  retryAfterMs?: number // RATE_LIMITED の場合、再試行できるまでの時間
+}
+
+// create-room の応答 (サーバーが発行したルームコード)
+export type CreateRoomResponse = {
+  success: boolean
+  roomCode?: string
+  message?: string
+  error?: 'INVALID_PAYLOAD' | 'RATE_LIMITED'
+  retryAfterMs?: number // RATE_LIMITED の場合、再試行できるまでの時間
+}
+
+// --- 通話 (WebRTC のシグナリング) ---
+// register-peer の応答 (このソケットが使う Peer ID をサーバーが発行する)
+export type RegisterPeerPayload = {
+  roomCode: string
+  sessionToken?: string // リロード前のトークンがあれば、猶予中の席と同じ ID を返す
+}
+
+// RTCPeerConnection の iceServers にそのまま渡せる形
+export type IceServerConfig = {
+  urls: string | string[]
+  username?: string // TURN のみ (期限付き)
+  credential?: string
+}
+
+export type RegisterPeerResponse = {
+  success: boolean
+  peerId?: string
+  iceServers?: IceServerConfig[] // 通話に使う STUN / TURN サーバー
+  message?: string
+  error?: 'INVALID_PAYLOAD'
+}
+
+// 通話用と画面共有用で別の RTCPeerConnection を使う
+// 画面共有はお互いに共有している場合もあるので、共有する側 ('screen') と見る側 ('screen-viewer') のどちらが送ったかで区別する
+export type SignalKind = 'call' | 'screen' | 'screen-viewer'
+
+export type SessionDescriptionPayload = {
+  type: 'offer' | 'answer'
+  sdp: string
+}
+
+export type IceCandidatePayload = {
+  candidate?: string
+  sdpMid?: string | null
+  sdpMLineIndex?: number | null
+  usernameFragment?: string | null
+}
+
+// offer / answer / ICE 候補のどれか 1 つを同じ部屋の相手 (to) に中継してもらう
+export type SignalPayload = {
+  to: string
+  kind: SignalKind
+  description?: SessionDescriptionPayload
+  candidate?: IceCandidatePayload
+}
+
+// 中継されて届いたシグナル (from はサーバーが付ける送り主)
+export type RelayedSignalPayload = Omit<SignalPayload, 'to'> & {
+  from: string
+}
+
+// --- 待合室 ---
+export type JoinPendingPayload = {
+  roomCode: string
+}
+
+export type JoinRequestPayload = {
+  requestId: string
+  name: string
+}
+
+export type JoinRequestCancelledPayload = {
+  requestId: string
+}
+
+export type JoinAdmittedPayload = {
+  ticket: string
+}
+
+// --- ホスト操作 ---
+export type HostChangedPayload = {
+  hostPeerId: string | null
+}
+
+export type KickedPayload = {
+  roomCode: string
+}
+
+export type RoomLockStatusPayload = {
+  isLocked: boolean
+}
+
+// ホスト操作 (キック・入室許可/拒否・ロック) の応答
+export type HostActionResponse = {
+  success: boolean
+  message?: string
+  error?: 'INVALID_PAYLOAD'
+}
+
+// --- 画面共有 ---
+export type ScreenShareStatusPayload = {
+  peerId: string
+  isSharing: boolean
+  sharerPeerIds: string[] // 今共有している人 (共有を始めた順)
+}
+
+export type InitiateScreenSharePayload = {
+  newPeerId: string
+}
+
+export type StartShareResponse = {
+  success: boolean
+  message?: string
+  // SHARE_BUSY: 同時に共有できる人数に達している、または順番待ちの次の人の番 (join-share-queue で並べる)
+  error?: 'INVALID_PAYLOAD' | 'SHARE_BUSY'
+}
+
+// 画面共有の順番待ち (並んだ人と、共有枠が空いて順番が来た人)
+export type ShareQueuePayload = {
+  queue: string[] // 並んだ順の peerId
+  offeredPeerId: string | null // 順番が来て、共有を始められる人
+  offerExpiresInMs: number | null // 順番が来た人が共有を始めるまでの残り時間 (過ぎると次の人に回る)
+}
+
+export type ShareQueueResponse = {
+  success: boolean
+  position?: number // join-share-queue: 何番目に並んだか (1 から)
+  message?: string
+  error?: 'INVALID_PAYLOAD'
+}
+
+// 同じ Peer ID で別のタブや端末から入り直したため、この接続は切断される (自動で再接続しない)
+export type SessionReplacedPayload = {
+  roomCode: string
+}
+
+// --- 運用 ---
+// 運用者が管理 API で部屋を閉じた
+export type RoomClosedPayload = {
+  roomCode: string
+}
+
+// 運用者からのメンテナンスのお知らせ (全部屋に届く)
+export type MaintenanceNoticePayload = {
+  message: string
+}
+
+// サーバーが停止する (再起動後に同じ部屋へ戻る)
+export type ServerRestartingPayload = {
+  expectedDowntimeMs: number // 再接続を始めるまでの目安
+  restoreToken?: string // 部屋の控え (ROOM_STORE=memory の場合のみ。再起動後の join-room で送り返す)
+}
+
+// ack も専用の拒否イベントも無いイベントで、ペイロードが不正だった
+export type ProtocolErrorPayload = {
+  event: keyof ClientToServerEvents
+  code: 'INVALID_PAYLOAD'
+  message: string
+}
+
+// --- イベント一覧 ---
+export interface ClientToServerEvents {
+  'join-room': (payload: JoinRoomPayload) => void
+  'check-room-exists': (
+    payload: CheckRoomExistsPayload,
+    callback: (response: CheckRoomExistsResponse) => void
+  ) => void
+  'create-room': (
+    payload: Record<string, never>,
+    callback: (response: CreateRoomResponse) => void
+  ) => void
+  'kick-participant': (
+    payload: { peerId: string },
+    callback: (response: HostActionResponse) => void
+  ) => void
+  admit: (
+    payload: { requestId: string },
+    callback: (response: HostActionResponse) => void
+  ) => void
+  deny: (
+    payload: { requestId: string },
+    callback: (response: HostActionResponse) => void
+  ) => void
+  'lock-room': (
+    payload: Record<string, never>,
+    callback: (response: HostActionResponse) => void
+  ) => void
+  'unlock-room': (
+    payload: Record<string, never>,
+    callback: (response: HostActionResponse) => void
+  ) => void
+  'register-peer': (
+    payload: RegisterPeerPayload,
+    callback: (response: RegisterPeerResponse) => void
+  ) => void
+  signal: (payload: SignalPayload) => void
+  'request-start-share': (
+    callback: (response: StartShareResponse) => void
+  ) => void
+  'notify-stop-share': () => void
+  'set-mute': (payload: SetMutePayload) => void
+  'join-share-queue': (callback: (response: ShareQueueResponse) => void) => void
+  'leave-share-queue': (
+    callback: (response: ShareQueueResponse) => void
+  ) => void
+}
+
+export interface ServerToClientEvents {
+  'room-state': (payload: RoomStatePayload) => void
+  'user-joined': (payload: UserJoinedPayload) => void
+  'user-left': (payload: UserLeftPayload) => void
+  'participant-updated': (payload: ParticipantUpdatedPayload) => void
+  signal: (payload: RelayedSignalPayload) => void
+  'screen-share-status': (payload: ScreenShareStatusPayload) => void
+  'initiate-screen-share-to-new-peer': (
+    payload: InitiateScreenSharePayload
+  ) => void
+  'share-queue-updated': (payload: ShareQueuePayload) => void
+  'share-offer-expired': () => void // 時間内に共有を始めなかったので、順番待ちから外れた
+  'host-changed': (payload: HostChangedPayload) => void
+  kicked: (payload: KickedPayload) => void
+  'session-replaced': (payload: SessionReplacedPayload) => void
+  'join-rejected': (payload: JoinRejectedPayload) => void
+  'join-pending': (payload: JoinPendingPayload) => void
+  'join-request': (payload: JoinRequestPayload) => void
+  'join-request-cancelled': (payload: JoinRequestCancelledPayload) => void
+  'join-admitted': (payload: JoinAdmittedPayload) => void
+  'room-lock-status': (payload: RoomLockStatusPayload) => void
+  'room-closed': (payload: RoomClosedPayload) => void
+  'maintenance-notice': (payload: MaintenanceNoticePayload) => void
+  'server-restarting': (payload: ServerRestartingPayload) => void
+  'protocol-error': (payload: ProtocolErrorPayload) => void
+}
+
+// --- protocol.js の実体 ---
+export declare const PROTOCOL_VERSION: ProtocolVersion
+export declare const SUPPORTED_PROTOCOL_VERSIONS: readonly number[]
+export declare const JOIN_ERROR: { readonly [Code in JoinErrorCode]: Code }
+
+export type ClientEventSpec = {
+  payload: ((payload: unknown) => string | null) | null
+  ack: boolean
+  invalidAck?: (message: string) => unknown
+  rejectEvent?: keyof ServerToClientEvents
+}
+
+export declare const CLIENT_EVENTS: {
+  readonly [Event in keyof ClientToServerEvents]: ClientEventSpec
+}
+
+export declare function checkProtocolVersion(
+  auth: unknown
+): VersionMismatchData | null
+
+export declare function validateClientEvent(
+  event: string,
+  args: unknown[]
+): {
+  message: string
+  reply(socket: { emit: (event: string, ...args: unknown[]) => void }): void
+} | null
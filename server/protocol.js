@@ -0,0 +1,186 @@
+// server/protocol.js
+// サーバーとクライアントで共有する socket.io のイベント定義
+// 型は protocol.d.ts (クライアントは型だけを読み込む)、ここでは受け取ったペイロードの検証を行う
+
+// サーバーが入室を拒否した理由 (join-rejected / check-room-exists の error)
+const JOIN_ERROR = {
+  PASSCODE_REQUIRED: 'PASSCODE_REQUIRED', // 合言葉が必要
+  INVALID_PASSCODE: 'INVALID_PASSCODE', // 合言葉が違う
+  ROOM_FULL: 'ROOM_FULL', // 定員に達している
+  JOIN_DENIED: 'JOIN_DENIED', // 承認制の部屋でホストに拒否された
+  ROOM_LOCKED: 'ROOM_LOCKED', // ホストが部屋をロックしている
+  ROOM_NOT_FOUND: 'ROOM_NOT_FOUND', // 部屋が無く、予約もされていない
+  RATE_LIMITED: 'RATE_LIMITED', // 問い合わせが多すぎる / 外し続けて締め出し中
+  INVALID_PAYLOAD: 'INVALID_PAYLOAD', // ペイロードの形式が正しくない
+}
+
+// プロトコルのバージョン (イベントやペイロードの形を変えたら上げる)
+//   1: 接続時にバージョンを送らない古いクライアント (user-left は peerId の文字列)
+//   2: 接続時に handshake.auth.protocolVersion を送る。user-left は { peerId }
+//   3: Peer ID をサーバーが発行し (register-peer)、WebRTC のシグナリングを signal で中継する
+//   4: 複数人が同時に画面共有できる (sharerPeerIds / currentSharerIds)。視聴側からのシグナルは kind: 'screen-viewer'
+//   5: ミュート状態をサーバーが持つ (set-mute / participant-updated)。データチャネルの MUTE_STATUS は送らない
+const PROTOCOL_VERSION = 5
+// このサーバーが受け付けるクライアントのバージョン
+const SUPPORTED_PROTOCOL_VERSIONS = [5]
+
+// 接続時に送られたバージョンを確認する
+// 受け付けられれば null、だめなら接続エラー (connect_error の data) に載せる情報を返す
+function checkProtocolVersion(auth) {
+  const clientVersion = Number.isInteger(auth?.protocolVersion)
+    ? auth.protocolVersion
+    : null
+  if (SUPPORTED_PROTOCOL_VERSIONS.includes(clientVersion)) return null
+  return {
+    code: 'VERSION_MISMATCH',
+    clientVersion,
+    serverVersion: PROTOCOL_VERSION,
+    supportedVersions: SUPPORTED_PROTOCOL_VERSIONS,
+  }
+}
+
+// --- 項目ごとの検査 (正しければ true) ---
+const isNonEmptyString = (value) => typeof value === 'string' && value !== ''
+const isString = (value) => typeof value === 'string'
+const isBoolean = (value) => typeof value === 'boolean'
+const isFiniteNumber = (value) =>
+  typeof value === 'number' && Number.isFinite(value)
+const optional = (check) => (value) =>
+  value === undefined || value === null || check(value)
+const isOneOf =
+  (...allowed) =>
+  (value) =>
+    allowed.includes(value)
+
+// オブジェクトの各項目を検査し、問題があれば理由を返す (正しければ null)
+const objectOf = (shape) => (payload) => {
+  if (!payload || typeof payload !== 'object' || Array.isArray(payload)) {
+    return 'payload must be an object'
+  }
+  const invalidKey = Object.keys(shape).find((key) => !shape[key](payload[key]))
+  return invalidKey ? `invalid field: ${invalidKey}` : null
+}
+
+// 入れ子のオブジェクト用 (objectOf を項目ごとの検査として使う)
+const isObjectOf = (shape) => (value) => objectOf(shape)(value) === null
+
+// ペイロードを省略してもよいイベント用
+const optionalObject = (check) => (payload) =>
+  payload === undefined || payload === null ? null : check(payload)
+const emptyObject = optionalObject(objectOf({}))
+
+// 不正なペイロードへの応答 (ack があればそちらで返す)
+const failedAck = (message) => ({
+  success: false,
+  error: JOIN_ERROR.INVALID_PAYLOAD,
+  message,
+})
+
+// --- クライアント -> サーバーのイベント ---
+//   payload: ペイロードの検査 (null ならペイロード無し。第 1 引数が ack になる)
+//   ack: ack で応答するイベントか
+//   invalidAck: 不正なペイロードに ack で返す応答
+//   rejectEvent: ack の無いイベントで、不正なペイロードを通知するイベント
+const CLIENT_EVENTS = {
+  'join-room': {
+    payload: objectOf({
+      roomCode: isNonEmptyString,
+      name: isNonEmptyString,
+      peerId: optional(isNonEmptyString), // 待合室に入る場合は無い
+      passcode: optional(isString),
+      maxParticipants: optional(isFiniteNumber),
+      approvalRequired: optional(isBoolean),
+      admissionTicket: optional(isString),
+      sessionToken: optional(isString),
+      restoreToken: optional(isString),
+      isMuted: optional(isBoolean),
+    }),
+    ack: false,
+    rejectEvent: 'join-rejected',
+  },
+  'check-room-exists': {
+    payload: objectOf({
+      roomCode: isNonEmptyString,
+      passcode: optional(isString),
+      sessionToken: optional(isString),
+    }),
+    ack: true,
+    invalidAck: () => ({ exists: false, error: JOIN_ERROR.INVALID_PAYLOAD }),
+  },
+  'create-room': { payload: emptyObject, ack: true },
+  'kick-participant': {
+    payload: objectOf({ peerId: isNonEmptyString }),
+    ack: true,
+  },
+  admit: { payload: objectOf({ requestId: isNonEmptyString }), ack: true },
+  deny: { payload: objectOf({ requestId: isNonEmptyString }), ack: true },
+  'lock-room': { payload: emptyObject, ack: true },
+  'unlock-room': { payload: emptyObject, ack: true },
+  'register-peer': {
+    payload: objectOf({
+      roomCode: isNonEmptyString,
+      sessionToken: optional(isString),
+    }),
+    ack: true,
+  },
+  signal: {
+    payload: objectOf({
+      to: isNonEmptyString,
+      kind: isOneOf('call', 'screen', 'screen-viewer'),
+      description: optional(
+        isObjectOf({ type: isOneOf('offer', 'answer'), sdp: isString })
+      ),
+      candidate: optional(
+        isObjectOf({
+          candidate: optional(isString),
+          sdpMid: optional(isString),
+          sdpMLineIndex: optional(isFiniteNumber),
+          usernameFragment: optional(isString),
+        })
+      ),
+    }),
+    ack: false,
+  },
+  'request-start-share': { payload: null, ack: true },
+  'notify-stop-share': { payload: null, ack: false },
+  'set-mute': { payload: objectOf({ isMuted: isBoolean }), ack: false },
+  'join-share-queue': { payload: null, ack: true },
+  'leave-share-queue': { payload: null, ack: true },
+}
+
+// ハンドラに渡された引数を検証する
+// 正しければ null、不正なら { message, reply } (reply は ack の応答またはイベントの送信)
+function validateClientEvent(event, args) {
+  const spec = CLIENT_EVENTS[event]
+  if (!spec || !spec.payload) return null
+
+  const [payload, ack] = args
+  const message = spec.payload(payload)
+  if (!message) return null
+
+  return {
+    message,
+    reply(socket) {
+      if (spec.ack && typeof ack === 'function') {
+        ack(spec.invalidAck ? spec.invalidAck(message) : failedAck(message))
+      } else if (spec.rejectEvent) {
+        socket.emit(spec.rejectEvent, { code: JOIN_ERROR.INVALID_PAYLOAD })
+      } else {
+        socket.emit('protocol-error', {
+          event,
+          code: JOIN_ERROR.INVALID_PAYLOAD,
+          message,
+        })
+      }
+    },
+  }
+}
+
+module.exports = {
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  JOIN_ERROR,
+  CLIENT_EVENTS,
+  checkProtocolVersion,
+  validateClientEvent,
+}
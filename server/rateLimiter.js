@@ -0,0 +1,71 @@
+// server/rateLimiter.js
+// 部屋コードの総当たり (check-room-exists / join-room の連打) を防ぐためのレート制限
+
+// 期限切れのエントリを定期的に掃除する (プロセス終了を妨げないよう unref)
+function startSweeper(entries, isExpired, intervalMs) {
+  const timer = setInterval(() => {
+    const now = Date.now()
+    entries.forEach((entry, key) => {
+      if (isExpired(entry, now)) entries.delete(key)
+    })
+  }, intervalMs)
+  timer.unref()
+}
+
+// --- 固定ウィンドウ: windowMs の間に limit 回まで許可 ---
+function createRateLimiter({ limit, windowMs }) {
+  const entries = new Map() // key -> { count, resetAt }
+  startSweeper(entries, (entry, now) => entry.resetAt <= now, windowMs)
+
+  return {
+    // 1 回分を消費し、制限を超えていれば再試行までのミリ秒を返す (許可なら 0)
+    consume(key) {
+      const now = Date.now()
+      let entry = entries.get(key)
+      if (!entry || entry.resetAt <= now) {
+        entry = { count: 0, resetAt: now + windowMs }
+        entries.set(key, entry)
+      }
+      entry.count += 1
+      return entry.count > limit ? entry.resetAt - now : 0
+    },
+  }
+}
+
+// --- 失敗回数の記録: windowMs の間に maxMisses 回外したら lockoutMs の間締め出す ---
+function createMissTracker({ maxMisses, windowMs, lockoutMs }) {
+  const entries = new Map() // key -> { misses, resetAt, lockedUntil }
+  startSweeper(
+    entries,
+    (entry, now) => entry.resetAt <= now && entry.lockedUntil <= now,
+    windowMs
+  )
+
+  return {
+    // 締め出し中なら解除までのミリ秒を返す (締め出されていなければ 0)
+    lockedFor(key) {
+      const entry = entries.get(key)
+      if (!entry) return 0
+      return Math.max(entry.lockedUntil - Date.now(), 0)
+    },
+    recordMiss(key) {
+      const now = Date.now()
+      let entry = entries.get(key)
+      if (!entry || entry.resetAt <= now) {
+        entry = {
+          misses: 0,
+          resetAt: now + windowMs,
+          lockedUntil: entry ? entry.lockedUntil : 0,
+        }
+        entries.set(key, entry)
+      }
+      entry.misses += 1
+      if (entry.misses >= maxMisses) {
+        entry.lockedUntil = now + lockoutMs
+        entry.misses = 0
+      }
+    },
+  }
+}
+
+module.exports = { createRateLimiter, createMissTracker }
@@ -1,373 +1,1849 @@
 // server.js (修正版 - check-room-exists イベントハンドラ追加)
-console.log(
-  '[SERVER SCRIPT START] server.js is being executed. Timestamp:',
-  new Date().toISOString()
-)
-
+// シグナリングサーバー本体 (createSignalingServer)。node server.js で起動した場合は PORT で待ち受ける
 const { createServer } = require('http')
+const crypto = require('crypto')
 const { Server } = require('socket.io')
+const { createAdapter } = require('@socket.io/redis-adapter')
+const { createClient } = require('redis')
+const { createRateLimiter, createMissTracker } = require('./rateLimiter')
+const { createRoomStore, getRoomStoreType } = require('./store')
+const { createMetrics } = require('./metrics')
+const { createAdminApi } = require('./adminApi')
+const { createIceServerProviderFromEnv } = require('./iceServers')
+const { logger: defaultLogger } = require('./logger')
+const { normalizeDisplayName, resolveDuplicateName } = require('./displayName')
+const {
+  PROTOCOL_VERSION,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  JOIN_ERROR,
+  checkProtocolVersion,
+  validateClientEvent,
+} = require('./protocol')
 
-// HTTPサーバーを作成し、基本的なリクエストに応答できるようにする
-const httpServer = createServer((req, res) => {
-  if (req.url === '/health' && req.method === 'GET') {
-    // 例: /health エンドポイント
-    res.writeHead(200, { 'Content-Type': 'text/plain' })
-    res.end('OK')
-  } else if (req.url === '/' && req.method === 'GET') {
-    // 例: ルートパスへの応答
-    res.writeHead(200, { 'Content-Type': 'text/plain' })
-    res.end('Socket.IO Server is running')
-  } else {
+// ★ HTTP リクエストの相関 ID (プロキシが X-Request-Id を付けていればそれを引き継ぐ)
+function getRequestId(req) {
+  const header = req.headers['x-request-id']
+  return typeof header === 'string' && header && header.length <= 128
+    ? header
+    : crypto.randomUUID()
+}
+
+// ★ シグナリングサーバーを作る (待ち受けは listen で始める)
+//   テストではポート 0 で起動し、設定 (env) やログの出力先 (logger) を差し替える
+function createSignalingServer({
+  env = process.env,
+  logger = defaultLogger,
+} = {}) {
+  // HTTPサーバーを作成し、基本的なリクエストに応答できるようにする
+  const httpServer = createServer((req, res) => {
+    const requestId = getRequestId(req)
+    res.setHeader('X-Request-Id', requestId)
+    const requestLog = logger.child({ requestId })
+    requestLog.debug('HTTP request', { method: req.method, path: req.url })
+
+    if (handleAdminRequest(req, res, requestLog)) return // ★ /admin/ 以下は管理 API
+
+    if (req.url === '/health' && req.method === 'GET') {
+      // 例: /health エンドポイント
+      res.writeHead(200, { 'Content-Type': 'text/plain' })
+      res.end('OK')
+    } else if (req.url === '/' && req.method === 'GET') {
+      // 例: ルートパスへの応答
+      res.writeHead(200, { 'Content-Type': 'text/plain' })
+      res.end('Socket.IO Server is running')
+    } else if (req.url === '/metrics' && req.method === 'GET') {
+      // ★ Prometheus 用のメトリクス
+      store
+        .listRooms()
+        .then((rooms) => {
+          res.writeHead(200, {
+            'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+          })
+          res.end(metrics.render(rooms))
+        })
+        .catch((error) => {
+          requestLog.error('Failed to render metrics', { error })
+          res.writeHead(500, { 'Content-Type': 'text/plain' })
+          res.end('Failed to collect metrics')
+        })
+    } else {
+    }
+  })
+
+  const metrics = createMetrics({ logger })
+
+  const IS_PRODUCTION = env.NODE_ENV === 'production'
+  // ★ LAN モード: インターネットに繋がらない LAN 内だけで使う (外部の STUN を使わず、LAN 内のどのアドレスから開いたページも受け付ける)
+  const LAN_MODE = env.LAN_MODE === '1'
+
+  const io = new Server(httpServer, {
+    cors: {
+      // LAN モードではページを配信するマシンの IP アドレスが決まっていないので、オリジンを問わない
+      origin: LAN_MODE
+        ? true
+        : [
+            'https://addcan-git-master-pipidayos-projects.vercel.app',
+            'https://addcan.vercel.app', // 本番用ドメイン
+            'http://localhost:3000', // ローカル開発用
+          ],
+      methods: ['GET', 'POST'], // methods も cors オブジェクト内に移動
+    },
+  })
+
+  // ★ 複数プロセスで動かす場合 (REDIS_URL あり) は、Redis アダプターで
+  //   io.to(...) の送信を他のプロセスに接続しているソケットにも届ける
+  const REDIS_URL = env.REDIS_URL
+  const redisClient = REDIS_URL ? createClient({ url: REDIS_URL }) : null
+  const subClient = redisClient ? redisClient.duplicate() : null
+  if (redisClient) {
+    ;[redisClient, subClient].forEach((client) =>
+      client.on('error', (error) => logger.error('Redis error', { error }))
+    )
+    // connect() を呼んだ後のコマンドは接続完了まで待たされる
+    Promise.all([redisClient.connect(), subClient.connect()])
+      .then(() => logger.info('Connected to Redis'))
+      .catch((error) => {
+        logger.error('Failed to connect to Redis', { error })
+        process.exit(1)
+      })
+    io.adapter(createAdapter(redisClient, subClient))
   }
-})
 
-const IS_PRODUCTION = process.env.NODE_ENV === 'production'
+  // ★ 部屋と参加者 (peerId と Socket ID の対応を含む) の状態はストアに置く
+  //   ROOM_STORE=file にすると再起動しても部屋が残り、redis なら複数プロセスで共有できる
+  //   (store/index.js を参照)
+  const ROOM_STORE = getRoomStoreType(env)
+  const store = createRoomStore(ROOM_STORE, { redisClient, env, logger })
+  if (!env.SESSION_SECRET) {
+    logger.warn(
+      'SESSION_SECRET is not set: clients cannot rejoin after a restart, and session tokens will not work across processes.'
+    )
+  }
 
-const port = process.env.PORT || 10000 // Renderが提供するPORT環境変数を使用。なければローカル開発用に10000など。
+  // --- ★ 部屋の定員 (フルメッシュ接続なので多すぎると品質が落ちる) ---
+  const DEFAULT_MAX_PARTICIPANTS = Number(env.DEFAULT_MAX_PARTICIPANTS) || 6 // 作成者が指定しなかった場合
+  const MAX_PARTICIPANTS_LIMIT = 10 // 作成者が指定できる上限
 
-function debugLog(...args) {
-  if (!IS_PRODUCTION) {
-    console.log(...args)
+  function resolveMaxParticipants(requested) {
+    const value = Number(requested)
+    if (!Number.isInteger(value)) return DEFAULT_MAX_PARTICIPANTS
+    return Math.min(Math.max(value, 2), MAX_PARTICIPANTS_LIMIT)
   }
-}
 
-debugLog(`[Server ENV] 環境変数 process.env.PORT の値: ${process.env.PORT}`)
-debugLog(`[Server ENV] サーバーが使用するポート: ${port}`)
-
-// --- Renderデバッグ用に追加 ---
-console.log(`[SERVER DEBUG] Raw process.env.PORT: ${process.env.PORT}`)
-console.log(`[SERVER DEBUG] IS_PRODUCTION: ${IS_PRODUCTION}`)
-console.log(`[SERVER DEBUG] Calculated port: ${port}`)
-// --- Renderデバッグ用ここまで ---
-
-httpServer.listen(port, '0.0.0.0', () => {
-  // 明示的に 0.0.0.0 でリッスン
-  console.log(`WebSocket server listening on 0.0.0.0:${port}`)
-})
-
-const io = new Server(httpServer, {
-  cors: {
-    origin: [
-      'https://addcan-git-master-pipidayos-projects.vercel.app',
-      'https://addcan.vercel.app', // 本番用ドメイン
-      'http://localhost:3000', // ローカル開発用
-    ],
-    methods: ['GET', 'POST'], // methods も cors オブジェクト内に移動
-  },
-})
-
-const rooms = {}
-const peerIdToSocketId = new Map()
-
-io.on('connection', (socket) => {
-  debugLog(`[Server] Connection handler started for socket ID: ${socket.id}`)
-  debugLog(`[Server] User connected: ${socket.id}`)
-
-  // socket オブジェクトにカスタムプロパティを追加して情報を保持
-  socket.currentPeerId = null
-  socket.currentRoomCode = null
-
-  // --- ルーム参加イベント ---
-  socket.on('join-room', ({ roomCode, peerId, name }) => {
-    if (!roomCode || !peerId || !name) {
-      console.warn('[Server] Invalid join-room payload:', {
-        roomCode,
-        peerId,
-        name,
-      })
-      return
+  // --- ★ 総当たり対策 (check-room-exists / join-room でルームコードを探られないようにする) ---
+  //   create-room も IP ごとの上限に含める (ルームコードを予約し放題にしない)
+  const lookupLimiters = {
+    perSocket: createRateLimiter({ limit: 10, windowMs: 60 * 1000 }),
+    perIp: createRateLimiter({ limit: 30, windowMs: 60 * 1000 }),
+  }
+  // 存在しないコードや違う合言葉を続けて送ってきた IP は、しばらく締め出す
+  const lookupMisses = createMissTracker({
+    maxMisses: 10,
+    windowMs: 10 * 60 * 1000,
+    lockoutMs: 15 * 60 * 1000,
+  })
+  // Render などプロキシの後ろでは X-Forwarded-For の先頭が本来のクライアント IP
+  const TRUST_PROXY = env.TRUST_PROXY
+    ? env.TRUST_PROXY === 'true'
+    : IS_PRODUCTION
+
+  function getClientIp(socket) {
+    const forwarded = socket.handshake.headers['x-forwarded-for']
+    if (TRUST_PROXY && typeof forwarded === 'string' && forwarded) {
+      return forwarded.split(',')[0].trim()
     }
-    debugLog(`[Server] Received join-room from ${peerId} for room ${roomCode}`)
+    return socket.handshake.address
+  }
 
-    // 以前の接続情報があればクリーンアップ (念のため)
-    // (同じ peerId で再接続した場合など)
-    const oldSocketId = peerIdToSocketId.get(peerId)
-    if (oldSocketId && oldSocketId !== socket.id) {
-      debugLog(`[Server] Cleaning up old socket mapping for peer ${peerId}`)
-      // 必要であれば、古いソケットに関連するルーム情報などもクリーンアップ
-      const oldSocket = io.sockets.sockets.get(oldSocketId)
-      if (oldSocket) {
-        // 古いソケットを強制的に退出させるなどの処理も可能
-      }
+  // 1 回分を数え、制限中なら再試行できるまでのミリ秒を返す (問題なければ 0)
+  function consumeLookupLimit(socket) {
+    const ip = getClientIp(socket)
+    return Math.max(
+      lookupMisses.lockedFor(ip),
+      lookupLimiters.perIp.consume(ip),
+      lookupLimiters.perSocket.consume(socket.id)
+    )
+  }
+
+  // 部屋が見つからない・合言葉が違うなど、コードを探っている可能性がある結果を記録
+  function recordLookupMiss(socket, errorCode) {
+    if (
+      errorCode === JOIN_ERROR.ROOM_NOT_FOUND ||
+      errorCode === JOIN_ERROR.INVALID_PASSCODE
+    ) {
+      lookupMisses.recordMiss(getClientIp(socket))
     }
+  }
 
-    socket.currentPeerId = peerId
-    socket.currentRoomCode = roomCode
-    //  Peer ID と Socket ID を紐付け
-    peerIdToSocketId.set(peerId, socket.id)
-    debugLog(`[Server] Mapped peer ${peerId} to socket ${socket.id}`)
+  // --- ★ ルームコードの発行 (create-room) ---
+  // サーバーが重複しないコードを発行し、作成者が入室するまで一定時間予約しておく
+  const ROOM_CODE_PREFIX = 'room-'
+  const ROOM_CODE_LENGTH = 6
+  const ROOM_CODE_CHARS = 'abcdefghijklmnopqrstuvwxyz0123456789'
+  const ROOM_RESERVATION_TTL_MS = 2 * 60 * 1000 // 予約はストアに置く (別プロセスで入室しても使える)
 
-    // 部屋が存在しなければ作成
-    if (!rooms[roomCode]) {
-      // ★ 部屋の初期構造を変更 ★
-      rooms[roomCode] = {
-        participants: {},
-        sharerPeerId: null, // 共有者は最初はいない
-      }
-      debugLog(`[Server] Room created: ${roomCode}`)
+  function generateRoomCode() {
+    let code = ''
+    for (let i = 0; i < ROOM_CODE_LENGTH; i++) {
+      code += ROOM_CODE_CHARS[crypto.randomInt(ROOM_CODE_CHARS.length)]
     }
+    return ROOM_CODE_PREFIX + code
+  }
 
-    const room = rooms[roomCode] // 以降 room 変数を使用
+  async function reserveRoomCode() {
+    let roomCode = generateRoomCode()
+    while (
+      (await store.getRoom(roomCode)) ||
+      !(await store.addReservation(roomCode, ROOM_RESERVATION_TTL_MS))
+    ) {
+      roomCode = generateRoomCode()
+    }
+    return roomCode
+  }
 
-    // 既存の参加者リストを取得 (自分自身を除く)
-    const existingParticipants = { ...room.participants } // ★ participants から取得
-    debugLog(
-      `[Server join-room] Preparing 'existing-participants' for ${peerId}. Data:`,
-      JSON.stringify(existingParticipants)
-    )
+  // ★ Peer ID (通話で相手を識別する ID) はサーバーが発行する
+  function generatePeerId() {
+    return crypto.randomUUID()
+  }
+
+  // ★ 通話に使う STUN / TURN サーバー (TURN の認証情報は Peer ID ごとに期限付きで発行)
+  const getIceServers = createIceServerProviderFromEnv(env, { logger })
+
+  // --- ★ 承認制の部屋 (待合室) ---
+  // ホストが許可すると入室チケットを発行し、そのチケット付きの join-room だけを通す
+  const ADMISSION_TICKET_TTL_MS = 60 * 1000
+
+  // ★ 相手が別のプロセスに接続していても届くよう、Socket ID 宛てに送る
+  //   (各ソケットは自分の ID の部屋に入っているので、アダプター経由で配送される)
+  async function emitToPeer(peerId, event, payload) {
+    const socketId = peerId ? await store.getSocketId(peerId) : null
+    if (socketId) io.to(socketId).emit(event, payload)
+    return !!socketId
+  }
+
+  // 入室チケットを検証し、有効なら使用済みにする
+  function consumeAdmissionTicket(room, ticket) {
+    if (!ticket || !room.admissionTickets[ticket]) return false
+    const expiresAt = room.admissionTickets[ticket]
+    delete room.admissionTickets[ticket]
+    return expiresAt > Date.now()
+  }
 
-    socket.join(roomCode)
-    // 参加者を追加/更新
-    room.participants[peerId] = name // ★ participants に追加
-    debugLog(`${name} (${peerId}) joined/updated room: ${roomCode}`)
-    debugLog(
-      '[Server join-room] Current rooms state AFTER join:',
-      JSON.stringify(rooms) // デバッグ用に rooms 全体を出力
+  // 待機中の入室リクエストをホストに通知する
+  async function notifyHostOfJoinRequests(room) {
+    const hostSocketId = room.hostPeerId
+      ? await store.getSocketId(room.hostPeerId)
+      : null
+    if (!hostSocketId) return
+    Object.entries(room.pendingJoins).forEach(([requestId, { name }]) => {
+      io.to(hostSocketId).emit('join-request', { requestId, name })
+    })
+  }
+
+  // --- ★ 再接続の猶予 (リロードや一時的な回線断で席を失わないようにする) ---
+  // 切断してもこの時間は participants に残し、セッショントークン付きで戻ってきたら席を返す
+  const RECONNECT_GRACE_MS = Number(env.RECONNECT_GRACE_MS) || 15 * 1000
+  // トークンの署名鍵 (複数プロセスで動かす場合は SESSION_SECRET を揃える)
+  const SESSION_SECRET =
+    env.SESSION_SECRET || crypto.randomBytes(32).toString('hex')
+  const reconnectTimers = new Map() // peerId -> 猶予切れで退出させるタイマー
+  // Peer ID とソケットの紐付けの期限 (ROOM_STORE=redis)。繋がっている間はこのプロセスが延ばし続ける
+  // プロセスが落ちて延ばされなくなった紐付けは消え、その席は下の sweepOrphanedSeats で空く
+  const PEER_SOCKET_TTL_MS = Number(env.PEER_SOCKET_TTL_MS) || 60 * 1000
+
+  // --- ★ 停止 (SIGTERM) ---
+  // 停止中は新しい join-room を受け付けず、接続中のクライアントには server-restarting で再接続の目安を伝える
+  // クライアントが切断するのを待ってから (最長 SHUTDOWN_DRAIN_TIMEOUT_MS) 終了する
+  const SHUTDOWN_EXPECTED_DOWNTIME_MS =
+    Number(env.SHUTDOWN_EXPECTED_DOWNTIME_MS) || 30 * 1000
+  const SHUTDOWN_DRAIN_TIMEOUT_MS =
+    Number(env.SHUTDOWN_DRAIN_TIMEOUT_MS) || 10 * 1000
+  let isShuttingDown = false
+
+  // セッショントークン: "<peerId>.<部屋コードと peerId の署名>"
+  function signSession(roomCode, peerId) {
+    return crypto
+      .createHmac('sha256', SESSION_SECRET)
+      .update(`${roomCode}:${peerId}`)
+      .digest('base64url')
+  }
+
+  function issueSessionToken(roomCode, peerId) {
+    return `${peerId}.${signSession(roomCode, peerId)}`
+  }
+
+  // トークンが正しければ、そのトークンの peerId を返す
+  function verifySessionToken(roomCode, token) {
+    if (typeof token !== 'string') return null
+    const separatorIndex = token.lastIndexOf('.')
+    if (separatorIndex <= 0) return null
+    const peerId = token.slice(0, separatorIndex)
+    const expected = Buffer.from(signSession(roomCode, peerId))
+    const actual = Buffer.from(token.slice(separatorIndex + 1))
+    if (
+      expected.length !== actual.length ||
+      !crypto.timingSafeEqual(expected, actual)
+    ) {
+      return null
+    }
+    return peerId
+  }
+
+  // --- ★ 部屋の控え (ROOM_STORE=memory で再起動をまたいで部屋を作り直すため) ---
+  // 停止時に server-restarting で参加者に渡し、再起動後の join-room で送り返してもらう
+  // 設定 (合言葉・定員・承認制・ロック) とホスト、参加者を署名付きで持たせる
+  // 閉じられた部屋やキックされた人は控えに入らないので、セッショントークンだけでは部屋を作り直せない
+  const RESTORE_TOKEN_TTL_MS =
+    SHUTDOWN_DRAIN_TIMEOUT_MS + SHUTDOWN_EXPECTED_DOWNTIME_MS + 5 * 60 * 1000
+  const restoredSnapshots = new Map() // roomCode -> 作り直しに使った控えの issuedAt (同じ控えで二度作り直さない)
+
+  function signRoomSnapshot(data) {
+    return crypto
+      .createHmac('sha256', SESSION_SECRET)
+      .update(`room-snapshot:${data}`)
+      .digest('base64url')
+  }
+
+  // 控え: "<部屋の設定の JSON (base64url)>.<署名>"
+  function issueRestoreToken(roomCode, room) {
+    const data = Buffer.from(
+      JSON.stringify({
+        roomCode,
+        participants: room.participants,
+        hostPeerId: room.hostPeerId,
+        passcodeHash: room.passcodeHash,
+        maxParticipants: room.maxParticipants,
+        approvalRequired: room.approvalRequired,
+        isLocked: room.isLocked,
+        issuedAt: Date.now(),
+      })
+    ).toString('base64url')
+    return `${data}.${signRoomSnapshot(data)}`
+  }
+
+  // 控えが正しく期限内なら、その内容を返す
+  function verifyRestoreToken(roomCode, token) {
+    if (typeof token !== 'string') return null
+    const separatorIndex = token.lastIndexOf('.')
+    if (separatorIndex <= 0) return null
+    const data = token.slice(0, separatorIndex)
+    const expected = Buffer.from(signRoomSnapshot(data))
+    const actual = Buffer.from(token.slice(separatorIndex + 1))
+    if (
+      expected.length !== actual.length ||
+      !crypto.timingSafeEqual(expected, actual)
+    ) {
+      return null
+    }
+    const snapshot = JSON.parse(Buffer.from(data, 'base64url').toString())
+    if (snapshot.roomCode !== roomCode) return null
+    if (Date.now() - snapshot.issuedAt > RESTORE_TOKEN_TTL_MS) return null
+    return snapshot
+  }
+
+  // トークンが部屋に残っている席 (在室中または猶予中) のものなら、その peerId を返す
+  async function findReclaimableSeat(roomCode, token) {
+    const peerId = verifySessionToken(roomCode, token)
+    const room = peerId ? await store.getRoom(roomCode) : null
+    return peerId && room && room.participants[peerId] ? peerId : null
+  }
+
+  function clearReconnectTimer(peerId) {
+    const timer = reconnectTimers.get(peerId)
+    if (timer) {
+      clearTimeout(timer)
+      reconnectTimers.delete(peerId)
+    }
+  }
+
+  // 猶予時間が過ぎても戻らなければ席を空ける
+  function holdSeat(roomCode, peerId) {
+    clearReconnectTimer(peerId)
+    reconnectTimers.set(
+      peerId,
+      setTimeout(async () => {
+        reconnectTimers.delete(peerId)
+        try {
+          // 別のプロセスで席を取り戻していれば、そちらのソケットに紐付いている
+          if (await store.getSocketId(peerId)) return
+          logger.debug('Grace period expired', { peerId, roomCode })
+          await removeParticipant(roomCode, peerId)
+        } catch (error) {
+          // タイマーの中なので、ここで拾わないと unhandledRejection になる
+          logger.error('Failed to release held seat', {
+            peerId,
+            roomCode,
+            error,
+          })
+        }
+      }, RECONNECT_GRACE_MS)
     )
+  }
+
+  // --- ★ 参加者の状態 (ミュート・画面共有) ---
+  // ミュートは room.participantStates、画面共有は room.sharerPeerIds にサーバーが持ち、
+  // 後から入った人には room-state でまとめて渡す (変わった時は participant-updated で全員に知らせる)
+  function getParticipantState(room, peerId) {
+    return {
+      isMuted: !!room.participantStates[peerId]?.isMuted,
+      isSharing: room.sharerPeerIds.includes(peerId),
+    }
+  }
 
-    // 他の参加者に通知 (自分自身を除く)
-    debugLog(
-      `[Server join-room] Broadcasting 'user-joined' to room ${roomCode}. Payload:`,
-      { peerId, name }
+  function getParticipantStates(room) {
+    return Object.fromEntries(
+      Object.keys(room.participants).map((peerId) => [
+        peerId,
+        getParticipantState(room, peerId),
+      ])
     )
-    socket.to(roomCode).emit('user-joined', { peerId, name })
-
-    //  新しい参加者への画面共有開始を通知
-    if (room.sharerPeerId && room.sharerPeerId !== peerId) {
-      const sharerSocketId = peerIdToSocketId.get(room.sharerPeerId) // ★ 共有者の Socket ID を取得
-      if (sharerSocketId) {
-        const sharerSocket = io.sockets.sockets.get(sharerSocketId) // ★ 共有者の Socket オブジェクトを取得
-        if (sharerSocket) {
-          debugLog(
-            `[Server] Notifying sharer ${room.sharerPeerId} (socket ${sharerSocketId}) to share with new peer ${peerId}`
-          )
-          // ★ 共有者だけに通知を送信
-          sharerSocket.emit('initiate-screen-share-to-new-peer', {
-            newPeerId: peerId,
-          })
-        } else {
-          console.warn(
-            `[Server] Could not find socket object for sharer socket ID ${sharerSocketId}`
+  }
+
+  function broadcastParticipantState(roomCode, room, peerId) {
+    io.to(roomCode).emit('participant-updated', {
+      peerId,
+      ...getParticipantState(room, peerId),
+    })
+  }
+
+  // --- ★ 画面共有の順番待ち ---
+  // 同時に共有できるのは MAX_CONCURRENT_SHARES 人まで (room.sharerPeerIds は共有を始めた順の peerId)
+  // 枠が埋まっている時に断られた人は順番待ちに並べる (room.shareQueue は並んだ順の peerId)
+  // 共有枠が空くと先頭の人に持ちかけ (room.shareOffer)、時間内に始めなければ見送ったものとして次の人に回す
+  // 持ちかけは 1 人ずつ (複数の枠が同時に空いた場合も、前の人が始めるか見送ってから次の人に回る)
+  const MAX_CONCURRENT_SHARES = Number(env.MAX_CONCURRENT_SHARES) || 2
+  const SHARE_OFFER_TIMEOUT_MS = Number(env.SHARE_OFFER_TIMEOUT_MS) || 15 * 1000
+  const shareOfferTimers = new Map() // roomCode -> 持ちかけた人の応答待ちタイマー: { expiresAt, timer }
+
+  function clearShareOfferTimer(roomCode) {
+    const entry = shareOfferTimers.get(roomCode)
+    if (entry) {
+      clearTimeout(entry.timer)
+      shareOfferTimers.delete(roomCode)
+    }
+  }
+
+  // 部屋の持ちかけ (room.shareOffer) に合わせて応答待ちタイマーを張り直す (部屋を更新した後に呼ぶ)
+  function syncShareOfferTimer(roomCode, room) {
+    const offer = room ? room.shareOffer : null
+    const entry = shareOfferTimers.get(roomCode)
+    if (entry && offer && entry.expiresAt === offer.expiresAt) return
+    clearShareOfferTimer(roomCode)
+    if (!offer) return
+    logger.debug('Offering screen share to next in queue', {
+      peerId: offer.peerId,
+      roomCode,
+    })
+    shareOfferTimers.set(roomCode, {
+      expiresAt: offer.expiresAt,
+      timer: setTimeout(
+        () => {
+          expireShareOffer(roomCode, offer.peerId).catch((error) =>
+            logger.error('Failed to expire screen share offer', {
+              error,
+              roomCode,
+            })
           )
-        }
-      } else {
-        console.warn(
-          `[Server] Could not find socket ID mapping for sharer peer ID ${room.sharerPeerId}`
-        )
+        },
+        Math.max(0, offer.expiresAt - Date.now())
+      ),
+    })
+  }
+
+  // 共有枠が空いているか (他の人への持ちかけ中は、その人の分の枠を空けておく)
+  function hasFreeShareSlot(room, peerId) {
+    const isOfferedToOther =
+      room.shareOffer !== null && room.shareOffer.peerId !== peerId
+    const reserved = room.sharerPeerIds.length + (isOfferedToOther ? 1 : 0)
+    return reserved < MAX_CONCURRENT_SHARES
+  }
+
+  // 部屋の全員に送る順番待ちの状態 (残り時間はクライアントとの時計のずれを避けるため相対値)
+  function getShareQueueStatus(room) {
+    return {
+      queue: room.shareQueue,
+      offeredPeerId: room.shareOffer ? room.shareOffer.peerId : null,
+      offerExpiresInMs: room.shareOffer
+        ? Math.max(0, room.shareOffer.expiresAt - Date.now())
+        : null,
+    }
+  }
+
+  // 順番待ちから外す (持ちかけ中なら取り消す)。並んでいなければ false
+  function removeFromShareQueue(room, peerId) {
+    if (!room.shareQueue.includes(peerId)) return false
+    room.shareQueue = room.shareQueue.filter((queued) => queued !== peerId)
+    if (room.shareOffer && room.shareOffer.peerId === peerId) {
+      room.shareOffer = null
+    }
+    return true
+  }
+
+  // 共有枠が空いていれば順番待ちの先頭の人に持ちかける (部屋を書き換えるだけ。updateRoom の中で呼ぶ)
+  function offerShareToNext(room) {
+    if (
+      room.sharerPeerIds.length < MAX_CONCURRENT_SHARES &&
+      !room.shareOffer &&
+      room.shareQueue.length > 0
+    ) {
+      room.shareOffer = {
+        peerId: room.shareQueue[0],
+        expiresAt: Date.now() + SHARE_OFFER_TIMEOUT_MS,
       }
     }
+  }
 
-    // 参加者に既存の参加者リストと現在の共有者IDを送信
-    const participantsToSend = { ...existingParticipants }
-    debugLog(
-      `[Server join-room] Sending 'room-state' to ${peerId}. Payload:`,
-      JSON.stringify({
-        participants: participantsToSend,
-        currentSharerId: room.sharerPeerId,
-      }) // ★ currentSharerId も送信
-    )
-    // ★ イベント名を変更 (またはクライアント側でペイロードを調整)
-    socket.emit('room-state', {
-      // 'existing-participants' から変更
-      participants: participantsToSend,
-      currentSharerId: room.sharerPeerId,
+  // 更新した順番待ちの状態を部屋の全員に知らせる
+  function announceShareQueue(roomCode, room) {
+    syncShareOfferTimer(roomCode, room)
+    io.to(roomCode).emit('share-queue-updated', getShareQueueStatus(room))
+  }
+
+  // 時間内に共有を始めなかった人は順番待ちから外し、次の人に回す
+  async function expireShareOffer(roomCode, peerId) {
+    shareOfferTimers.delete(roomCode)
+    let isExpired = false
+    const room = await store.updateRoom(roomCode, (current) => {
+      isExpired = !!current?.shareOffer && current.shareOffer.peerId === peerId
+      if (!isExpired) return undefined
+      removeFromShareQueue(current, peerId)
+      offerShareToNext(current)
+      return current
     })
-  })
+    if (!isExpired) return
+    logger.debug('Screen share offer expired', { peerId, roomCode })
+    await emitToPeer(peerId, 'share-offer-expired')
+    announceShareQueue(roomCode, room)
+  }
 
-  // ここから追加: 部屋存在確認イベント
-  socket.on('check-room-exists', ({ roomCode }, callback) => {
-    if (!roomCode) {
-      if (typeof callback === 'function') callback({ exists: false })
-      return
+  // 合言葉はそのまま保持せずハッシュ化して保存する
+  function hashPasscode(passcode) {
+    return crypto.createHash('sha256').update(passcode).digest('hex')
+  }
+
+  // 新しい部屋の状態 (設定は作成者の指定、または再起動前の控えから)
+  function createRoomState({
+    passcodeHash,
+    maxParticipants,
+    approvalRequired,
+  }) {
+    return {
+      participants: {},
+      sharerPeerIds: [], // 共有者は最初はいない (共有を始めた順の peerId)
+      hostPeerId: null, // ★ 最初に参加した人がホストになる
+      passcodeHash, // ★ 作成者が設定した合言葉
+      maxParticipants, // ★ 定員
+      approvalRequired, // ★ 承認制 (待合室あり) か
+      pendingJoins: {}, // ★ 待合室: { [socketId]: { name } }
+      admissionTickets: {}, // ★ 発行済みの入室チケット: { [ticket]: expiresAt }
+      isLocked: false, // ★ ロック中は新しい参加者を受け付けない
+      shareQueue: [], // ★ 画面共有の順番待ち (並んだ順の peerId)
+      shareOffer: null, // ★ 順番が来た人への持ちかけ: { peerId, expiresAt }
+      participantStates: {}, // ★ 参加者ごとの状態: { [peerId]: { isMuted } }
     }
-    const roomExists = rooms.hasOwnProperty(roomCode)
-    debugLog(
-      `[Server check-room-exists] Room ${roomCode} exists: ${roomExists}`
+  }
+
+  // ★ 再起動で消えた部屋を控えから作り直す (控えに載っている参加者が戻ってきた場合のみ)
+  //   参加者は全員、再接続の猶予中として席を残す (戻ってきた人はこの後 reclaimSeat で席に戻る)
+  async function restoreRoomFromSnapshot(roomCode, peerId, restoreToken) {
+    const snapshot = verifyRestoreToken(roomCode, restoreToken)
+    if (!snapshot || !snapshot.participants[peerId]) return false
+    if (restoredSnapshots.get(roomCode) === snapshot.issuedAt) return false
+
+    let isRestored = false
+    const room = await store.updateRoom(roomCode, (current) => {
+      isRestored = !current
+      if (!isRestored) return undefined
+      return {
+        ...createRoomState(snapshot),
+        participants: snapshot.participants,
+        hostPeerId: snapshot.hostPeerId,
+        isLocked: snapshot.isLocked,
+      }
+    })
+    if (!isRestored) return false
+
+    restoredSnapshots.set(roomCode, snapshot.issuedAt)
+    Object.keys(room.participants).forEach((seatPeerId) =>
+      holdSeat(roomCode, seatPeerId)
     )
-    if (typeof callback === 'function') {
-      callback({ exists: roomExists })
-    } else {
-      console.warn(
-        `[Server check-room-exists] No callback provided for room check: ${roomCode}`
-      )
+    logger.info('Restored room from snapshot', { peerId, roomCode })
+    return true
+  }
+
+  // --- ★ 部屋に入れるかを確認し、入れなければ JOIN_ERROR のコードを返す ---
+  function checkRoomAccess(room, { passcode, peerId }) {
+    if (room.passcodeHash) {
+      if (!passcode) return JOIN_ERROR.PASSCODE_REQUIRED
+      const expected = Buffer.from(room.passcodeHash, 'hex')
+      const actual = Buffer.from(hashPasscode(String(passcode)), 'hex')
+      if (!crypto.timingSafeEqual(expected, actual)) {
+        return JOIN_ERROR.INVALID_PASSCODE
+      }
     }
-  })
+    // 既に参加している人 (再送など) はロック・定員チェックの対象外
+    const isAlreadyInRoom = peerId && room.participants[peerId]
+    if (!isAlreadyInRoom && room.isLocked) {
+      return JOIN_ERROR.ROOM_LOCKED
+    }
+    if (
+      !isAlreadyInRoom &&
+      Object.keys(room.participants).length >= room.maxParticipants
+    ) {
+      return JOIN_ERROR.ROOM_FULL
+    }
+    return null
+  }
 
-  // --- ★ 画面共有開始リクエスト ---
-  socket.on('request-start-share', (callback) => {
-    const peerId = socket.currentPeerId
-    const roomCode = socket.currentRoomCode
+  // --- 参加者を部屋から取り除く共通処理 (切断時・キック時に使用) ---
+  async function removeParticipant(roomCode, peerId) {
+    clearReconnectTimer(peerId) // 猶予中に退出が確定した場合 (キックなど)
+    let removedFrom = null // 取り除く前の部屋の情報 (いなければ null)
+    const room = await store.updateRoom(roomCode, (current) => {
+      removedFrom = null
+      if (!current || !current.participants[peerId]) return undefined
+
+      // ★ 共有者だったかどうかをチェック ★
+      const wasSharing = current.sharerPeerIds.includes(peerId)
+      const wasQueued = removeFromShareQueue(current, peerId)
+      const wasHost = current.hostPeerId === peerId
+      removedFrom = { wasSharing, wasQueued, wasHost, room: current }
+
+      delete current.participants[peerId] // ★ participants から削除
+      delete current.participantStates[peerId]
+      current.sharerPeerIds = current.sharerPeerIds.filter(
+        (id) => id !== peerId
+      )
+      // 部屋に誰もいなくなったら部屋を削除
+      if (Object.keys(current.participants).length === 0) return null
 
-    // 部屋に参加しているか、情報が正しいか確認
-    if (!roomCode || !peerId || !rooms[roomCode]) {
-      console.warn('[Server request-start-share] User not in a valid room:', {
+      // ★ ホストが抜けた場合は、最も長く在室している参加者にホストを引き継ぐ
+      //   (participants は参加順にキーが並んでいるので先頭が最古参)
+      if (wasHost) current.hostPeerId = Object.keys(current.participants)[0]
+      // ★ 共有枠が空いた、または持ちかけられていた人が抜けた場合は次の人に回す
+      if (wasSharing || wasQueued) offerShareToNext(current)
+      return current
+    })
+    if (!removedFrom) {
+      logger.debug('Participant to remove was not in the room', {
         peerId,
         roomCode,
       })
-      if (typeof callback === 'function') {
-        // callback が関数か確認してから呼ぶ
-        callback({ success: false, message: 'Not in a valid room.' })
-      }
       return
     }
+    const { wasSharing, wasQueued, wasHost } = removedFrom
+    metrics.leaves.inc()
 
-    const room = rooms[roomCode]
-
-    if (room.sharerPeerId === null) {
-      // 誰も共有していない -> 共有開始OK
-      room.sharerPeerId = peerId // 共有者IDを設定
-      debugLog(
-        `[Server request-start-share] User ${peerId} allowed to share in room ${roomCode}.`
-      )
-      debugLog(
-        `[Server request-start-share] Calling callback with success: true for ${peerId}`
-      )
+    // 他の参加者に退出を通知
+    logger.info('Participant left', {
+      peerId,
+      roomCode,
+      participantCount: room ? Object.keys(room.participants).length : 0,
+    })
+    io.to(roomCode).emit('user-left', { peerId })
 
-      // 共有開始を許可する応答を返す
-      if (typeof callback === 'function') callback({ success: true })
-      // 部屋の全員に通知 (新しい共有者情報をブロードキャスト)
+    // ★ もし退出した人が画面共有中だったら、それも通知 ★
+    if (wasSharing) {
+      logger.debug('Sharer left, stopping screen share', { peerId, roomCode })
+      // 部屋の全員に通知
       io.to(roomCode).emit('screen-share-status', {
-        peerId: peerId, // 誰が共有を開始したか
-        isSharing: true, // 共有が開始されたこと
-        sharerPeerId: peerId, // 現在の共有者ID (冗長かもしれないが明確化のため)
+        peerId: peerId, // 誰の共有が停止したか
+        isSharing: false, // 停止したこと
+        sharerPeerIds: removedFrom.room.sharerPeerIds, // 現在の共有者ID (共有を始めた順)
       })
-    } else {
-      // 既に誰かが共有中 -> 共有開始NG
-      debugLog(
-        `[Server request-start-share] User ${peerId} denied sharing in room ${roomCode} (Already shared by ${room.sharerPeerId}).`
-      )
-      debugLog(
-        `[Server request-start-share] Calling callback with success: false for ${peerId}`
-      )
-
-      // 共有開始を拒否する応答を返す
-      if (typeof callback === 'function')
-        callback({
-          success: false,
-          message: 'Another user is already sharing.',
-        })
     }
-  })
 
-  // --- ★ 画面共有停止通知 ---
-  socket.on('notify-stop-share', () => {
-    const peerId = socket.currentPeerId
-    const roomCode = socket.currentRoomCode
+    // 部屋が削除された
+    if (!room) {
+      logger.info('Room is empty, deleting room', { roomCode })
+      clearShareOfferTimer(roomCode)
+      // ★ 待合室にいる人には入室できなくなったことを通知
+      Object.keys(removedFrom.room.pendingJoins).forEach((requestId) => {
+        io.to(requestId).emit('join-rejected', { code: JOIN_ERROR.JOIN_DENIED })
+        metrics.joinRejections.inc({ code: JOIN_ERROR.JOIN_DENIED })
+      })
+      return
+    }
 
-    // 部屋に参加しているか、情報が正しいか確認
-    if (!roomCode || !peerId || !rooms[roomCode]) {
-      console.warn('[Server notify-stop-share] User not in a valid room:', {
-        peerId,
+    if (wasHost) {
+      logger.debug('Host left, handing over', {
         roomCode,
+        hostPeerId: room.hostPeerId,
       })
-      return
+      io.to(roomCode).emit('host-changed', { hostPeerId: room.hostPeerId })
+      // 新しいホストに待機中の入室リクエストを引き継ぐ
+      await notifyHostOfJoinRequests(room)
     }
 
-    const room = rooms[roomCode]
+    // ★ 順番待ちが変わった、または共有枠が空いて次の人に回せる場合は知らせる
+    if (wasQueued || (wasSharing && room.shareQueue.length > 0)) {
+      announceShareQueue(roomCode, room)
+    }
+  }
 
-    if (room.sharerPeerId === peerId) {
-      // 自分が共有者だった場合 -> 停止処理
-      debugLog(
-        `[Server notify-stop-share] User ${peerId} stopped sharing in room ${roomCode}.`
-      )
-      room.sharerPeerId = null // 共有者IDをリセット
-      // 部屋の全員に通知 (共有が停止したことをブロードキャスト)
-      io.to(roomCode).emit('screen-share-status', {
-        peerId: peerId, // 誰が共有を停止したか
-        isSharing: false, // 共有が停止されたこと
-        sharerPeerId: null, // 現在の共有者ID
+  // ★ 運用者が部屋を強制的に閉じる (参加者には room-closed を送り、席は残さない)
+  async function closeRoom(roomCode) {
+    let room = null // 閉じる前の部屋
+    await store.updateRoom(roomCode, (current) => {
+      room = current
+      return current ? null : undefined
+    })
+    if (!room) return false
+
+    logger.info('Closing room by admin request', { roomCode })
+    clearShareOfferTimer(roomCode)
+    io.to(roomCode).emit('room-closed', { roomCode })
+    Object.keys(room.pendingJoins).forEach((requestId) => {
+      io.to(requestId).emit('join-rejected', {
+        code: JOIN_ERROR.ROOM_NOT_FOUND,
       })
-    } else {
-      // 共有者でないのに停止通知が来た場合 (基本的には起こらないはずだがログ)
-      console.warn(
-        `[Server notify-stop-share] User ${peerId} tried to stop sharing in room ${roomCode}, but current sharer is ${room.sharerPeerId}.`
-      )
+      metrics.joinRejections.inc({ code: JOIN_ERROR.ROOM_NOT_FOUND })
+    })
+    // 紐付けを消しておけば、この後の各ソケットの切断では何もしない
+    for (const peerId of Object.keys(room.participants)) {
+      clearReconnectTimer(peerId)
+      await store.deleteSocketId(peerId)
     }
+    metrics.leaves.inc({}, Object.keys(room.participants).length)
+    io.in(roomCode).socketsLeave(roomCode)
+    return true
+  }
+
+  const handleAdminRequest = createAdminApi({
+    token: env.ADMIN_TOKEN,
+    listRooms: () => store.listRooms(),
+    closeRoom,
+    // 全プロセスの全ソケットに送る (アダプター経由)
+    broadcastNotice: async (message) => {
+      logger.info('Broadcasting maintenance notice', { message })
+      io.emit('maintenance-notice', { message })
+    },
+    logger,
   })
 
-  // --- 切断イベント ---
-  socket.on('disconnect', () => {
-    debugLog(`[Server] disconnect event for socket ID: ${socket.id}`)
-    const peerId = socket.currentPeerId
-    const roomCode = socket.currentRoomCode
+  // ★ 接続時にプロトコルのバージョンを確認する
+  //   対応していなければ接続を断り、クライアントには connect_error の data で知らせる (再読み込みを促す)
+  io.use((socket, next) => {
+    const mismatch = checkProtocolVersion(socket.handshake.auth)
+    if (!mismatch) return next()
+    logger.debug('Rejected connection: unsupported protocol version', {
+      socketId: socket.id,
+      clientVersion: mismatch.clientVersion,
+    })
+    const error = new Error('Unsupported protocol version')
+    error.data = mismatch
+    next(error)
+  })
+
+  io.on('connection', (socket) => {
+    // ★ この接続のログには Socket ID を付ける (接続から切断までを追えるようにする)
+    const log = logger.child({ socketId: socket.id })
+    log.debug('Socket connected')
 
-    // ユーザーが部屋に参加していたか、情報が正しく設定されていたか確認
-    if (!roomCode || !peerId || !rooms[roomCode]) {
-      debugLog(
-        `[Server disconnect] User ${socket.id} (Peer ID: ${peerId}) was not in a room or room data inconsistent. No room cleanup needed.`
+    // socket オブジェクトにカスタムプロパティを追加して情報を保持
+    socket.currentPeerId = null
+    socket.currentRoomCode = null
+    socket.pendingRoomCode = null // ★ 待合室で待機中の部屋
+    socket.assignedPeerId = null // ★ register-peer で発行した Peer ID
+
+    // ★ イベントハンドラを登録する
+    //   ペイロードは protocol.js の定義で検証し、不正なら型の決まったエラーを返してハンドラを呼ばない
+    //   (処理時間は /metrics に記録)
+    const handle = (event, handler) =>
+      socket.on(
+        event,
+        metrics.observeHandler(
+          event,
+          (...args) => {
+            const invalid = validateClientEvent(event, args)
+            if (!invalid) return handler(...args)
+            log.debug('Rejected malformed payload', {
+              event,
+              reason: invalid.message,
+            })
+            invalid.reply(socket)
+          },
+          log
+        )
       )
-      return // 部屋に参加していなかった場合はここで終了
+
+    // --- ルーム参加イベント ---
+    handle('join-room', async (joinPayload) => {
+      const {
+        roomCode,
+        peerId,
+        name,
+        passcode,
+        maxParticipants,
+        approvalRequired,
+        admissionTicket,
+        sessionToken,
+        restoreToken,
+        isMuted,
+      } = joinPayload
+      log.debug('Received join-room', { peerId, roomCode })
+
+      // ★ 停止中は入室させず、再起動後に繋ぎ直してもらう
+      if (isShuttingDown) {
+        socket.emit('server-restarting', {
+          expectedDowntimeMs: SHUTDOWN_EXPECTED_DOWNTIME_MS,
+        })
+        return
+      }
+
+      // ★ 連打・総当たり対策
+      //   セッショントークンを持つ入室 (再接続・席の取り戻し) は部屋を探っているわけではないので数えない
+      const hasSession =
+        !!peerId && verifySessionToken(roomCode, sessionToken) === peerId
+      const retryAfterMs = hasSession ? 0 : consumeLookupLimit(socket)
+      if (retryAfterMs) {
+        log.debug('Rate limited join-room', { roomCode })
+        socket.emit('join-rejected', {
+          code: JOIN_ERROR.RATE_LIMITED,
+          retryAfterMs,
+        })
+        metrics.joinRejections.inc({ code: JOIN_ERROR.RATE_LIMITED })
+        return
+      }
+
+      // ★ 名乗れるのは、このソケットに発行した Peer ID か、セッショントークンで証明できる ID だけ
+      //   (自動再接続した新しいソケットは、トークンで元の ID を名乗る)
+      if (peerId && peerId !== socket.assignedPeerId && !hasSession) {
+        log.warn('Rejected join-room: peer ID was not issued to this socket', {
+          peerId,
+          roomCode,
+        })
+        metrics.joinRejections.inc({ code: JOIN_ERROR.INVALID_PAYLOAD })
+        socket.emit('join-rejected', { code: JOIN_ERROR.INVALID_PAYLOAD })
+        return
+      }
+      if (peerId) socket.assignedPeerId = peerId
+
+      // ★ 表示名を揃える (空白だけの名前などは受け付けない)
+      const displayName = normalizeDisplayName(name)
+      if (!displayName) {
+        log.debug('Rejected join-room: empty display name', { roomCode })
+        metrics.joinRejections.inc({ code: JOIN_ERROR.INVALID_PAYLOAD })
+        socket.emit('join-rejected', { code: JOIN_ERROR.INVALID_PAYLOAD })
+        return
+      }
+
+      // ★ 再起動で部屋が消えていれば (ROOM_STORE=memory)、停止時に渡した控えから作り直す
+      if (peerId && restoreToken) {
+        await restoreRoomFromSnapshot(roomCode, peerId, restoreToken)
+      }
+
+      // ★ 猶予中の席をセッショントークンで取り戻す場合は、入室チェックを行わず元の状態のまま戻す
+      if (
+        peerId &&
+        (await findReclaimableSeat(roomCode, sessionToken)) === peerId
+      ) {
+        await reclaimSeat(roomCode, peerId, isMuted)
+        return
+      }
+
+      // ★ 部屋が無い場合は、create-room で予約されたコードでなければ作らない
+      //   (再起動で消えた部屋は、上で控えから作り直している)
+      const isReserved =
+        !(await store.getRoom(roomCode)) &&
+        (await store.hasReservation(roomCode))
+
+      // ★ 入室できるかの確認から参加者の追加までを、他の更新と重ならないように行う
+      let outcome = null // { error } | { isPending } | { isNewRoom, isNewParticipant, existingParticipants, assignedName }
+      const room = await store.updateRoom(roomCode, (current) => {
+        if (current) {
+          // 既存の部屋なら合言葉などを確認する
+          const accessError = checkRoomAccess(current, { passcode, peerId })
+          if (accessError) {
+            outcome = { error: accessError }
+            return undefined
+          }
+          // ★ 承認制の部屋なら、入室チケットがない限り待合室に入れる
+          const isAlreadyInRoom = peerId && current.participants[peerId]
+          if (
+            current.approvalRequired &&
+            !isAlreadyInRoom &&
+            !consumeAdmissionTicket(current, admissionTicket)
+          ) {
+            current.pendingJoins[socket.id] = { name: displayName }
+            outcome = { isPending: true }
+            return current
+          }
+        }
+        // peerId が無くてよいのは待合室に入る場合だけ
+        if (!peerId) {
+          outcome = { error: JOIN_ERROR.INVALID_PAYLOAD }
+          return undefined
+        }
+        if (!current && !isReserved) {
+          outcome = { error: JOIN_ERROR.ROOM_NOT_FOUND }
+          return undefined
+        }
+
+        // 部屋が存在しなければ作成
+        const room =
+          current ||
+          createRoomState({
+            passcodeHash: passcode ? hashPasscode(String(passcode)) : null,
+            maxParticipants: resolveMaxParticipants(maxParticipants),
+            approvalRequired: !!approvalRequired,
+          })
+        // ★ ホストがいなければ (部屋の作成者なら) ホストに設定
+        if (!room.hostPeerId) room.hostPeerId = peerId
+
+        // 既存の参加者リストを取得 (自分自身を除く)
+        const existingParticipants = { ...room.participants } // ★ participants から取得
+        const isNewParticipant = !room.participants[peerId] // 同じ peerId での入り直しは数えない
+        // ★ 同じ名前の人がいれば番号を付ける (入り直した場合は今の名前のまま)
+        const assignedName =
+          room.participants[peerId] ??
+          resolveDuplicateName(displayName, Object.values(existingParticipants))
+        room.participants[peerId] = assignedName // ★ participants に追加
+        // ★ ミュートしたまま入った場合も、他の参加者に正しく表示されるようにする
+        room.participantStates[peerId] = {
+          isMuted: isMuted ?? getParticipantState(room, peerId).isMuted,
+        }
+        outcome = {
+          isNewRoom: !current,
+          isNewParticipant,
+          existingParticipants,
+          assignedName,
+        }
+        return room
+      })
+
+      if (outcome.error) {
+        log.debug('Rejected join-room', {
+          peerId,
+          roomCode,
+          code: outcome.error,
+        })
+        if (outcome.error !== JOIN_ERROR.INVALID_PAYLOAD) {
+          recordLookupMiss(socket, outcome.error)
+        }
+        socket.emit('join-rejected', { code: outcome.error })
+        metrics.joinRejections.inc({ code: outcome.error })
+        return
+      }
+
+      // ★ 待合室に入れてホストに通知
+      if (outcome.isPending) {
+        log.debug('Waiting for approval', { roomCode })
+        socket.pendingRoomCode = roomCode
+        socket.emit('join-pending', { roomCode })
+        await emitToPeer(room.hostPeerId, 'join-request', {
+          requestId: socket.id,
+          name: displayName,
+        })
+        return
+      }
+
+      const {
+        isNewRoom,
+        isNewParticipant,
+        existingParticipants,
+        assignedName,
+      } = outcome
+      if (isNewRoom) {
+        await store.deleteReservation(roomCode) // 予約を使用済みにする
+        log.info('Room created', { roomCode })
+        log.debug('Assigned host', { peerId, roomCode })
+      }
+
+      // 同じ peerId の古いソケットが残っていれば、紐付けを移してから追い出す
+      const oldSocketId = await store.getSocketId(peerId)
+
+      socket.currentPeerId = peerId
+      socket.currentRoomCode = roomCode
+      //  Peer ID と Socket ID を紐付け
+      await store.setSocketId(peerId, socket.id, PEER_SOCKET_TTL_MS)
+      evictReplacedSocket(oldSocketId, roomCode, peerId)
+
+      socket.join(roomCode)
+      if (isNewParticipant) metrics.joins.inc()
+      log.info('Participant joined', {
+        peerId,
+        roomCode,
+        participantCount: Object.keys(room.participants).length,
+      })
+
+      // 他の参加者に通知 (自分自身を除く)
+      socket.to(roomCode).emit('user-joined', {
+        peerId,
+        name: assignedName,
+        hostPeerId: room.hostPeerId,
+      })
+      if (room.participantStates[peerId].isMuted) {
+        socket.to(roomCode).emit('participant-updated', {
+          peerId,
+          ...getParticipantState(room, peerId),
+        })
+      }
+
+      //  新しい参加者への画面共有開始を通知 (共有中の全員に)
+      for (const sharerPeerId of room.sharerPeerIds) {
+        if (sharerPeerId === peerId) continue
+        const sharerSocketId = await store.getSocketId(sharerPeerId) // ★ 共有者の Socket ID を取得
+        if (sharerSocketId) {
+          log.debug('Asking sharer to share with new peer', {
+            sharerPeerId,
+            peerId,
+          })
+          // ★ 共有者だけに通知を送信 (共有者が別のプロセスにいてもアダプター経由で届く)
+          io.to(sharerSocketId).emit('initiate-screen-share-to-new-peer', {
+            newPeerId: peerId,
+          })
+        } else {
+          log.warn('Could not find socket ID mapping for sharer', {
+            sharerPeerId,
+            roomCode,
+          })
+        }
+      }
+
+      // 参加者に既存の参加者リストと現在の共有者IDを送信
+      const participantsToSend = { ...existingParticipants }
+      // ★ イベント名を変更 (またはクライアント側でペイロードを調整)
+      socket.emit('room-state', {
+        // 'existing-participants' から変更
+        participants: participantsToSend,
+        participantStates: getParticipantStates(room), // ★ 全員のミュート・画面共有の状態
+        currentSharerIds: room.sharerPeerIds,
+        maxConcurrentShares: MAX_CONCURRENT_SHARES,
+        hostPeerId: room.hostPeerId,
+        isLocked: room.isLocked,
+        sessionToken: issueSessionToken(roomCode, peerId), // ★ 再接続時に席を取り戻すためのトークン
+        name: assignedName, // ★ 他の参加者に表示される自分の名前
+      })
+      if (room.shareQueue.length > 0) {
+        socket.emit('share-queue-updated', getShareQueueStatus(room))
+      }
+    })
+
+    // --- ★ 同じ Peer ID で入り直した場合、前のソケットに置き換わったことを伝えて切断する ---
+    // 紐付けは先に新しいソケットへ移しておくので、前のソケットの切断処理は席に触らない
+    // (切断は 'io server disconnect' になり、前のクライアントは自動で再接続しない)
+    const evictReplacedSocket = (oldSocketId, roomCode, peerId) => {
+      if (!oldSocketId || oldSocketId === socket.id) return
+      log.info('Evicting replaced socket', { peerId, roomCode, oldSocketId })
+      const oldSocket = io.sockets.sockets.get(oldSocketId)
+      if (oldSocket) oldSocket.isReplaced = true // このプロセスのソケットなら切断処理を確実に飛ばす
+      // 別のプロセスに繋がっていてもアダプター経由で届く
+      io.to(oldSocketId).emit('session-replaced', { roomCode })
+      io.in(oldSocketId).disconnectSockets()
+    }
+
+    // --- ★ 猶予中の席に戻る (他の参加者には退出/入室を通知しない) ---
+    const reclaimSeat = async (roomCode, peerId, isMuted) => {
+      clearReconnectTimer(peerId)
+
+      // リロードした場合などはミュート状態が変わっているので、送られてきた状態に合わせる
+      let isMuteChanged = false
+      const room = await store.updateRoom(roomCode, (current) => {
+        isMuteChanged =
+          !!current?.participants[peerId] &&
+          isMuted !== undefined &&
+          isMuted !== getParticipantState(current, peerId).isMuted
+        if (!isMuteChanged) return undefined
+        current.participantStates[peerId] = { isMuted }
+        return current
+      })
+      // 確認した後に席が空けられた (猶予切れやキックと重なった)
+      if (!room || !room.participants[peerId]) {
+        socket.emit('join-rejected', { code: JOIN_ERROR.ROOM_NOT_FOUND })
+        metrics.joinRejections.inc({ code: JOIN_ERROR.ROOM_NOT_FOUND })
+        return
+      }
+      if (isMuteChanged) broadcastParticipantState(roomCode, room, peerId)
+
+      // 古いソケットがまだ残っていれば (別のタブなど)、紐付けを移してから追い出す
+      const oldSocketId = await store.getSocketId(peerId)
+
+      socket.currentPeerId = peerId
+      socket.currentRoomCode = roomCode
+      await store.setSocketId(peerId, socket.id, PEER_SOCKET_TTL_MS)
+      evictReplacedSocket(oldSocketId, roomCode, peerId)
+      socket.join(roomCode)
+      log.info('Participant reclaimed their seat', { peerId, roomCode })
+
+      socket.emit('room-state', {
+        participants: { ...room.participants },
+        participantStates: getParticipantStates(room),
+        currentSharerIds: room.sharerPeerIds,
+        maxConcurrentShares: MAX_CONCURRENT_SHARES,
+        hostPeerId: room.hostPeerId,
+        isLocked: room.isLocked,
+        sessionToken: issueSessionToken(roomCode, peerId),
+        name: room.participants[peerId],
+      })
+      if (room.shareQueue.length > 0) {
+        socket.emit('share-queue-updated', getShareQueueStatus(room))
+      }
+      // ホストが戻ってきた場合は、猶予中に届いた入室リクエストを通知し直す
+      if (room.hostPeerId === peerId) await notifyHostOfJoinRequests(room)
     }
 
-    // Peer ID と Socket ID の紐付けを解除
-    if (peerId) {
-      peerIdToSocketId.delete(peerId)
-      debugLog(`[Server] Unmapped peer ${peerId} from socket ${socket.id}`)
+    // --- ★ Peer ID の発行 (通話の準備を始める前に呼ばれる) ---
+    // 猶予中の席のトークンがあれば同じ ID を返し、リロード後も席と通話相手の認識を引き継ぐ
+    // (その ID がまだ別のソケットで使われていれば、新しい ID を発行する)
+    // あわせて、その ID 用の ICE サーバー (STUN / TURN) の一覧を渡す
+    handle('register-peer', async (registerPayload, callback) => {
+      const { roomCode, sessionToken } = registerPayload
+      const previousPeerId = verifySessionToken(roomCode, sessionToken)
+      const peerId =
+        previousPeerId && !(await store.getSocketId(previousPeerId))
+          ? previousPeerId
+          : generatePeerId()
+      socket.assignedPeerId = peerId
+      log.debug('Issued peer ID', {
+        peerId,
+        roomCode,
+        reused: peerId === previousPeerId,
+      })
+      if (typeof callback === 'function') {
+        callback({ success: true, peerId, iceServers: getIceServers(peerId) })
+      }
+    })
+
+    // --- ★ WebRTC のシグナリング (offer / answer / ICE 候補) を同じ部屋の相手に中継する ---
+    // 送り主はサーバーが付けるので、他人になりすまして送ることはできない
+    handle('signal', async (signalPayload) => {
+      const { to, kind, description, candidate } = signalPayload
+      const from = socket.currentPeerId
+      const roomCode = socket.currentRoomCode
+      const room = roomCode ? await store.getRoom(roomCode) : null
+      // ★ 送り手も今の参加者であること (キックされた人が通話を張り直せないように)
+      if (
+        !from ||
+        !room ||
+        to === from ||
+        !room.participants[from] ||
+        !room.participants[to]
+      ) {
+        log.debug('Dropped signal: not in the same room', { kind, to })
+        return
+      }
+      const delivered = await emitToPeer(to, 'signal', {
+        from,
+        kind,
+        description,
+        candidate,
+      })
+      if (!delivered) {
+        log.debug('Dropped signal: target is not connected', { kind, to })
+      }
+    })
+
+    // --- ★ 参加者のキック (ホストのみ) ---
+    handle('kick-participant', async (kickPayload, callback) => {
+      const { peerId: targetPeerId } = kickPayload || {}
+      const peerId = socket.currentPeerId
+      const roomCode = socket.currentRoomCode
+      const room = roomCode ? await store.getRoom(roomCode) : null
+
+      if (!room || !peerId) {
+        if (typeof callback === 'function')
+          callback({ success: false, message: 'Not in a valid room.' })
+        return
+      }
+      if (room.hostPeerId !== peerId) {
+        log.warn('Non-host tried to kick a participant', {
+          peerId,
+          targetPeerId,
+          roomCode,
+        })
+        if (typeof callback === 'function')
+          callback({ success: false, message: 'Only the host can kick.' })
+        return
+      }
+      if (targetPeerId === peerId || !room.participants[targetPeerId]) {
+        if (typeof callback === 'function')
+          callback({ success: false, message: 'Invalid target.' })
+        return
+      }
+
+      log.info('Host kicked a participant', { peerId, targetPeerId, roomCode })
+
+      // 対象のソケットを部屋から外し、紐付けも消して以降の disconnect で二重に処理されないようにする
+      const targetSocketId = await store.getSocketId(targetPeerId)
+      if (targetSocketId) {
+        // このプロセスのソケットなら、部屋にいた情報も消して以降のイベントを受け付けない
+        // (別のプロセスのソケットは、各ハンドラの在室チェックで弾く)
+        const targetSocket = io.sockets.sockets.get(targetSocketId)
+        if (targetSocket) {
+          targetSocket.currentPeerId = null
+          targetSocket.currentRoomCode = null
+        }
+        io.to(targetSocketId).emit('kicked', { roomCode })
+        io.in(targetSocketId).socketsLeave(roomCode)
+      }
+      await store.deleteSocketId(targetPeerId)
+
+      await removeParticipant(roomCode, targetPeerId)
+      if (typeof callback === 'function') callback({ success: true })
+    })
+
+    // --- ★ 待合室の入室リクエストへの応答 (ホストのみ) ---
+    const resolveJoinRequest = async (action, { requestId } = {}, callback) => {
+      const peerId = socket.currentPeerId
+      const roomCode = socket.currentRoomCode
+      const ticket = action === 'admit' ? crypto.randomUUID() : null
+
+      let errorMessage = null
+      if (!roomCode || !peerId) {
+        errorMessage = 'Only the host can respond.'
+      } else {
+        await store.updateRoom(roomCode, (room) => {
+          if (!room || room.hostPeerId !== peerId) {
+            errorMessage = 'Only the host can respond.'
+            return undefined
+          }
+          if (!room.pendingJoins[requestId]) {
+            errorMessage = 'Request not found.'
+            return undefined
+          }
+          errorMessage = null
+          delete room.pendingJoins[requestId]
+          if (ticket) {
+            room.admissionTickets[ticket] = Date.now() + ADMISSION_TICKET_TTL_MS
+          }
+          return room
+        })
+      }
+      if (errorMessage) {
+        if (typeof callback === 'function')
+          callback({ success: false, message: errorMessage })
+        return
+      }
+
+      // 待機中のソケットは別のプロセスにいることもあるので、Socket ID 宛てに送る
+      if (ticket) {
+        io.to(requestId).emit('join-admitted', { ticket })
+      } else {
+        io.to(requestId).emit('join-rejected', { code: JOIN_ERROR.JOIN_DENIED })
+        metrics.joinRejections.inc({ code: JOIN_ERROR.JOIN_DENIED })
+      }
+      log.debug('Host resolved a join request', {
+        action,
+        peerId,
+        requestId,
+        roomCode,
+      })
+      if (typeof callback === 'function') callback({ success: true })
     }
 
-    debugLog(
-      `[Server disconnect] Before cleanup: Peer ID: ${peerId}, Room: ${roomCode}`
+    handle('admit', (payload, callback) =>
+      resolveJoinRequest('admit', payload, callback)
     )
-    debugLog(
-      '[Server disconnect] Current rooms state BEFORE delete:',
-      JSON.stringify(rooms)
+    handle('deny', (payload, callback) =>
+      resolveJoinRequest('deny', payload, callback)
     )
 
-    const room = rooms[roomCode] // room 変数を使用
+    // --- ★ 部屋のロック/解除 (ホストのみ) ---
+    const setRoomLock = async (isLocked, callback) => {
+      const peerId = socket.currentPeerId
+      const roomCode = socket.currentRoomCode
 
-    if (room.participants[peerId]) {
-      // ★ participants を確認
-      debugLog(
-        `[Server disconnect] Removing ${peerId} (${room.participants[peerId]}) from room ${roomCode}`
-      )
+      let cancelledRequestIds = null // 拒否する待合室のリクエスト (ホストでなければ null)
+      if (roomCode && peerId) {
+        await store.updateRoom(roomCode, (room) => {
+          cancelledRequestIds = null
+          if (!room || room.hostPeerId !== peerId) return undefined
+          room.isLocked = isLocked
+          cancelledRequestIds = []
+          if (isLocked) {
+            // ロックしたら待合室の人も入れなくなる
+            cancelledRequestIds = Object.keys(room.pendingJoins)
+            room.pendingJoins = {}
+            room.admissionTickets = {}
+          }
+          return room
+        })
+      }
+      if (!cancelledRequestIds) {
+        if (typeof callback === 'function')
+          callback({ success: false, message: 'Only the host can lock.' })
+        return
+      }
 
-      // ★ 共有者だったかどうかをチェック ★
-      const wasSharing = room.sharerPeerId === peerId
+      if (cancelledRequestIds.length > 0) {
+        // 待合室の人には拒否を通知し、ホストの一覧からも消す
+        const hostSocketId = await store.getSocketId(peerId)
+        cancelledRequestIds.forEach((requestId) => {
+          io.to(requestId).emit('join-rejected', {
+            code: JOIN_ERROR.ROOM_LOCKED,
+          })
+          metrics.joinRejections.inc({ code: JOIN_ERROR.ROOM_LOCKED })
+          if (hostSocketId) {
+            io.to(hostSocketId).emit('join-request-cancelled', { requestId })
+          }
+        })
+      }
+      log.debug(isLocked ? 'Host locked the room' : 'Host unlocked the room', {
+        peerId,
+        roomCode,
+      })
+      io.to(roomCode).emit('room-lock-status', { isLocked })
+      if (typeof callback === 'function') callback({ success: true })
+    }
+
+    handle('lock-room', (payload, callback) => setRoomLock(true, callback))
+    handle('unlock-room', (payload, callback) => setRoomLock(false, callback))
 
-      delete room.participants[peerId] // ★ participants から削除
+    // --- ★ 部屋の作成 (ルームコードの発行) ---
+    handle('create-room', async (payload, callback) => {
+      if (typeof callback !== 'function') return
+      // ★ 連打対策
+      const retryAfterMs = lookupLimiters.perIp.consume(getClientIp(socket))
+      if (retryAfterMs) {
+        log.debug('Rate limited create-room')
+        callback({
+          success: false,
+          message: 'Too many rooms created.',
+          error: JOIN_ERROR.RATE_LIMITED,
+          retryAfterMs,
+        })
+        return
+      }
+      const roomCode = await reserveRoomCode()
+      log.debug('Reserved room code', { roomCode })
+      callback({ success: true, roomCode })
+    })
 
-      // 他の参加者に退出を通知
-      debugLog(
-        `[Server disconnect] Broadcasting 'user-left' to room ${roomCode}. Payload:`,
-        { peerId }
+    // ここから追加: 部屋存在確認イベント
+    handle('check-room-exists', async (checkPayload, callback) => {
+      const { roomCode, passcode, sessionToken } = checkPayload
+      // ★ 連打・総当たり対策
+      const retryAfterMs = consumeLookupLimit(socket)
+      if (retryAfterMs) {
+        log.debug('Rate limited check-room-exists', { roomCode })
+        if (typeof callback === 'function') {
+          callback({
+            exists: false,
+            error: JOIN_ERROR.RATE_LIMITED,
+            retryAfterMs,
+          })
+        }
+        return
+      }
+      // ★ 席を取り戻せる (リロードなど) 場合は、ロックや承認制に関係なく入れる
+      if (await findReclaimableSeat(roomCode, sessionToken)) {
+        if (typeof callback === 'function') callback({ exists: true })
+        return
+      }
+      const room = await store.getRoom(roomCode)
+      const roomExists = !!room
+      log.debug('Checked room', { roomCode, exists: roomExists })
+      // ★ 部屋があれば合言葉を確認し、入れない場合はエラーコードも返す
+      const accessError = roomExists
+        ? checkRoomAccess(room, { passcode })
+        : null
+      const isReserved = !roomExists && (await store.hasReservation(roomCode))
+      recordLookupMiss(
+        socket,
+        roomExists || isReserved ? accessError : JOIN_ERROR.ROOM_NOT_FOUND
       )
-      // io.to(roomCode).emit('user-left', { peerId }) // { peerId } オブジェクトではなく peerId 文字列を送る方が一般的かも？クライアントの実装に合わせる
-      io.to(roomCode).emit('user-left', peerId) // Peer ID 文字列を送信
+      if (typeof callback === 'function') {
+        if (accessError) {
+          callback({ exists: roomExists, error: accessError })
+        } else if (roomExists && room.approvalRequired) {
+          // ★ 承認制の部屋は待合室を経由する必要があることを伝える
+          callback({ exists: roomExists, approvalRequired: true })
+        } else {
+          // ★ 予約済み (作成者がまだ入室していない) のコードも存在する扱い
+          callback({ exists: roomExists || isReserved })
+        }
+      } else {
+        log.warn('No callback provided for check-room-exists', { roomCode })
+      }
+    })
+
+    // --- ★ 画面共有開始リクエスト ---
+    handle('request-start-share', async (callback) => {
+      const peerId = socket.currentPeerId
+      const roomCode = socket.currentRoomCode
+
+      // 部屋に参加しているか、共有枠が空いているかを確認して共有者に加える
+      let result = null // 'already' | 'started' | 'denied'
+      let wasQueued = false
+      const room =
+        roomCode && peerId
+          ? await store.updateRoom(roomCode, (current) => {
+              wasQueued = false
+              if (!current?.participants[peerId]) return undefined
+              if (current.sharerPeerIds.includes(peerId)) {
+                // 既に共有中 (再送など) -> そのまま OK
+                result = 'already'
+                return undefined
+              }
+              // ★ 順番待ちの先頭に持ちかけている間は、その人の分の枠は使えない
+              if (!hasFreeShareSlot(current, peerId)) {
+                result = 'denied'
+                return undefined
+              }
+              result = 'started'
+              current.sharerPeerIds.push(peerId) // 共有者IDを追加
+              wasQueued = removeFromShareQueue(current, peerId)
+              // 順番が来て始めた場合、まだ枠が残っていれば次の人に持ちかける
+              if (wasQueued) offerShareToNext(current)
+              return current
+            })
+          : null
+
+      // ★ キックされた人などは、部屋を離れた後のソケットから共有枠を使えない
+      if (!room || !room.participants[peerId]) {
+        log.warn('request-start-share from a socket not in a valid room', {
+          peerId,
+          roomCode,
+        })
+        if (typeof callback === 'function') {
+          // callback が関数か確認してから呼ぶ
+          callback({ success: false, message: 'Not in a valid room.' })
+        }
+        return
+      }
+
+      if (result === 'already') {
+        if (typeof callback === 'function') callback({ success: true })
+        return
+      }
+
+      if (result === 'started') {
+        // 共有枠が空いている -> 共有開始OK
+        log.debug('Screen share started', { peerId, roomCode })
+
+        // 共有開始を許可する応答を返す
+        if (typeof callback === 'function') callback({ success: true })
+        // 部屋の全員に通知 (新しい共有者情報をブロードキャスト)
+        io.to(roomCode).emit('screen-share-status', {
+          peerId: peerId, // 誰が共有を開始したか
+          isSharing: true, // 共有が開始されたこと
+          sharerPeerIds: room.sharerPeerIds, // 現在の共有者ID (共有を始めた順)
+        })
+        broadcastParticipantState(roomCode, room, peerId)
+        // 順番が来て始めた場合は、順番待ちから外れたことを知らせる
+        if (wasQueued) announceShareQueue(roomCode, room)
+      } else {
+        // 共有枠が埋まっている (または次の人の順番) -> 共有開始NG (順番待ちには並べる)
+        const isFull = room.sharerPeerIds.length >= MAX_CONCURRENT_SHARES
+        log.debug('Screen share denied: no free share slot', {
+          peerId,
+          roomCode,
+          sharerPeerIds: room.sharerPeerIds,
+          maxConcurrentShares: MAX_CONCURRENT_SHARES,
+        })
+
+        // 共有開始を拒否する応答を返す
+        if (typeof callback === 'function')
+          callback({
+            success: false,
+            message: isFull
+              ? 'The maximum number of users are already sharing.'
+              : 'The next user in the queue is about to share.',
+            error: 'SHARE_BUSY',
+          })
+      }
+    })
+
+    // --- ★ 画面共有の順番待ちに並ぶ (共有枠が空いていればすぐに順番が来る) ---
+    handle('join-share-queue', async (callback) => {
+      const peerId = socket.currentPeerId
+      const roomCode = socket.currentRoomCode
+      let isJoined = false
+      const room =
+        roomCode && peerId
+          ? await store.updateRoom(roomCode, (current) => {
+              isJoined =
+                !!current?.participants[peerId] &&
+                !current.sharerPeerIds.includes(peerId) &&
+                !current.shareQueue.includes(peerId)
+              if (!isJoined) return undefined
+              current.shareQueue.push(peerId)
+              offerShareToNext(current)
+              return current
+            })
+          : null
+      // ★ キックされた人などは、部屋を離れた後のソケットから並べない
+      if (!room || !room.participants[peerId]) {
+        log.warn('join-share-queue from a socket not in a valid room', {
+          peerId,
+          roomCode,
+        })
+        if (typeof callback === 'function')
+          callback({ success: false, message: 'Not in a valid room.' })
+        return
+      }
+      if (room.sharerPeerIds.includes(peerId)) {
+        if (typeof callback === 'function')
+          callback({ success: false, message: 'You are already sharing.' })
+        return
+      }
+
+      if (isJoined) {
+        log.debug('Joined screen share queue', {
+          peerId,
+          roomCode,
+          position: room.shareQueue.length,
+        })
+        announceShareQueue(roomCode, room)
+      }
+      if (typeof callback === 'function')
+        callback({
+          success: true,
+          position: room.shareQueue.indexOf(peerId) + 1,
+        })
+    })
+
+    // --- ★ 順番待ちをやめる (順番が来た時に見送る場合も) ---
+    handle('leave-share-queue', async (callback) => {
+      const peerId = socket.currentPeerId
+      const roomCode = socket.currentRoomCode
+      let isLeft = false
+      const room =
+        roomCode && peerId
+          ? await store.updateRoom(roomCode, (current) => {
+              isLeft = !!current && removeFromShareQueue(current, peerId)
+              if (!isLeft) return undefined
+              offerShareToNext(current)
+              return current
+            })
+          : null
+      if (!room) {
+        if (typeof callback === 'function')
+          callback({ success: false, message: 'Not in a valid room.' })
+        return
+      }
+
+      if (isLeft) {
+        log.debug('Left screen share queue', { peerId, roomCode })
+        announceShareQueue(roomCode, room)
+      }
+      if (typeof callback === 'function') callback({ success: true })
+    })
+
+    // --- ★ マイクのミュート状態 (サーバーが持ち、部屋の全員に知らせる) ---
+    handle('set-mute', async ({ isMuted }) => {
+      const peerId = socket.currentPeerId
+      const roomCode = socket.currentRoomCode
+      let isChanged = false
+      const room =
+        roomCode && peerId
+          ? await store.updateRoom(roomCode, (current) => {
+              isChanged =
+                !!current?.participants[peerId] &&
+                getParticipantState(current, peerId).isMuted !== isMuted
+              if (!isChanged) return undefined
+              current.participantStates[peerId] = { isMuted }
+              return current
+            })
+          : null
+      if (!room || !room.participants[peerId]) {
+        log.warn('set-mute from a socket not in a valid room', {
+          peerId,
+          roomCode,
+        })
+        return
+      }
+      if (!isChanged) return
+
+      log.debug('Mute status changed', { peerId, roomCode, isMuted })
+      broadcastParticipantState(roomCode, room, peerId)
+    })
+
+    // --- ★ 画面共有停止通知 ---
+    handle('notify-stop-share', async () => {
+      const peerId = socket.currentPeerId
+      const roomCode = socket.currentRoomCode
+      let wasSharing = false
+      const room =
+        roomCode && peerId
+          ? await store.updateRoom(roomCode, (current) => {
+              wasSharing = !!current?.sharerPeerIds.includes(peerId)
+              if (!wasSharing) return undefined
+              current.sharerPeerIds = current.sharerPeerIds.filter(
+                (id) => id !== peerId
+              ) // 共有者IDを外す
+              // ★ 順番待ちの人がいれば次の人に持ちかける
+              offerShareToNext(current)
+              return current
+            })
+          : null
+
+      // 部屋に参加しているか、情報が正しいか確認
+      if (!room) {
+        log.warn('notify-stop-share from a socket not in a valid room', {
+          peerId,
+          roomCode,
+        })
+        return
+      }
 
-      // ★ もし退出した人が画面共有中だったら、それも通知 ★
       if (wasSharing) {
-        debugLog(
-          `[Server disconnect] Broadcasting screen share stop because sharer ${peerId} left room ${roomCode}.`
-        )
-        room.sharerPeerId = null // 共有者IDをリセット
-        // 部屋の全員に通知
+        // 自分が共有者だった場合 -> 停止処理
+        log.debug('Screen share stopped', { peerId, roomCode })
+        // 部屋の全員に通知 (共有が停止したことをブロードキャスト)
         io.to(roomCode).emit('screen-share-status', {
-          peerId: peerId, // 誰の共有が停止したか
-          isSharing: false, // 停止したこと
-          sharerPeerId: null, // 現在の共有者ID
+          peerId: peerId, // 誰が共有を停止したか
+          isSharing: false, // 共有が停止されたこと
+          sharerPeerIds: room.sharerPeerIds, // 現在の共有者ID (共有を始めた順)
+        })
+        broadcastParticipantState(roomCode, room, peerId)
+        if (room.shareQueue.length > 0) announceShareQueue(roomCode, room)
+      } else {
+        // 共有者でないのに停止通知が来た場合 (基本的には起こらないはずだがログ)
+        log.warn('Non-sharer tried to stop screen share', {
+          peerId,
+          roomCode,
+          sharerPeerIds: room.sharerPeerIds,
         })
       }
+    })
 
-      // 部屋に誰もいなくなったら部屋を削除
-      if (Object.keys(room.participants).length === 0) {
-        // ★ participants を確認
-        debugLog(
-          `[Server disconnect] Room ${roomCode} is empty, deleting room.`
-        )
-        delete rooms[roomCode]
+    // --- 切断イベント ---
+    handle('disconnect', async (reason) => {
+      log.debug('Socket disconnected', { reason })
+
+      // ★ 待合室で待機中だった場合はリクエストを取り下げてホストに通知
+      let wasPending = false
+      const pendingRoom = socket.pendingRoomCode
+        ? await store.updateRoom(socket.pendingRoomCode, (room) => {
+            wasPending = !!room?.pendingJoins[socket.id]
+            if (!wasPending) return undefined
+            delete room.pendingJoins[socket.id]
+            return room
+          })
+        : null
+      if (wasPending) {
+        await emitToPeer(pendingRoom.hostPeerId, 'join-request-cancelled', {
+          requestId: socket.id,
+        })
       }
-    } else {
-      debugLog(
-        `[Server disconnect] User ${socket.id} (Peer ID: ${peerId}) was not in a room or room data inconsistent.`
+      const peerId = socket.currentPeerId
+      const roomCode = socket.currentRoomCode
+
+      // ★ 同じ Peer ID の新しいソケットに置き換えられた場合は、席を新しいソケットに任せる
+      if (socket.isReplaced) {
+        log.debug('Socket was replaced, skipping cleanup', { peerId, roomCode })
+        return
+      }
+
+      // ユーザーが部屋に参加していたか、情報が正しく設定されていたか確認
+      if (!roomCode || !peerId || !(await store.getRoom(roomCode))) {
+        log.debug('Disconnected socket was not in a room', { peerId })
+        return // 部屋に参加していなかった場合はここで終了
+      }
+
+      // ★ 席が別のソケット (他のプロセスを含む) に移っていれば、この切断では何もしない
+      if ((await store.getSocketId(peerId)) !== socket.id) {
+        log.debug('Peer is bound to another socket, skipping cleanup', {
+          peerId,
+          roomCode,
+        })
+        return
+      }
+
+      // Peer ID と Socket ID の紐付けを解除
+      await store.deleteSocketId(peerId)
+
+      // ★ 自分から退出した場合以外は、猶予時間が過ぎるまで席を残す
+      //   (停止中の切断は server-restarting を受けたクライアントなので、再起動後に戻ってくる)
+      if (reason !== 'client namespace disconnect' || isShuttingDown) {
+        log.debug('Holding seat during grace period', {
+          peerId,
+          roomCode,
+          graceMs: RECONNECT_GRACE_MS,
+        })
+        holdSeat(roomCode, peerId)
+        return
+      }
+
+      await removeParticipant(roomCode, peerId)
+    })
+  })
+
+  // ★ 再起動前の部屋を復元する (ROOM_STORE=file など)
+  //   ソケットはすべて切れているので、参加者は再接続の猶予中として扱う
+  async function restoreRooms() {
+    const savedRooms = await store.listRooms()
+    for (const [roomCode, room] of Object.entries(savedRooms)) {
+      room.pendingJoins = {} // 待合室のソケットは残っていない
+      // 単独の共有者 (sharerPeerId) だった頃に保存された部屋
+      if (!room.sharerPeerIds) {
+        room.sharerPeerIds = room.sharerPeerId ? [room.sharerPeerId] : []
+        delete room.sharerPeerId
+      }
+      // 参加者の状態を持つ前に保存された部屋
+      if (!room.participantStates) room.participantStates = {}
+      room.shareQueue = [] // 順番待ちの人も繋ぎ直すまで共有を始められない
+      room.shareOffer = null
+      await store.saveRoom(roomCode, room)
+      Object.keys(room.participants).forEach((peerId) =>
+        holdSeat(roomCode, peerId)
       )
+      logger.info('Restored room', { roomCode })
     }
-    debugLog(
-      '[Server disconnect] Current rooms state AFTER delete:',
-      JSON.stringify(rooms)
+  }
+
+  // ★ どのソケットにも紐付いていない席を猶予中として扱う (ROOM_STORE=redis)
+  //   Redis の部屋は他のプロセスのソケットも使っているので、restoreRooms のように全員の席を預かることはしない
+  //   停止・異常終了したプロセスの参加者は紐付けが消えているので、戻ってこなければ猶予切れで退出させる
+  async function sweepOrphanedSeats() {
+    const rooms = await store.listRooms()
+    for (const [roomCode, room] of Object.entries(rooms)) {
+      for (const peerId of Object.keys(room.participants)) {
+        if (reconnectTimers.has(peerId)) continue // このプロセスで猶予中
+        if (await store.getSocketId(peerId)) continue
+        logger.debug('Holding orphaned seat', { peerId, roomCode })
+        holdSeat(roomCode, peerId)
+      }
+    }
+  }
+
+  // このプロセスのソケットの紐付けの期限を延ばす
+  async function refreshSocketIds() {
+    for (const socket of io.of('/').sockets.values()) {
+      if (!socket.currentPeerId || socket.isReplaced) continue
+      await store.refreshSocketId(
+        socket.currentPeerId,
+        socket.id,
+        PEER_SOCKET_TTL_MS
+      )
+    }
+  }
+
+  // Redis の部屋は他のプロセスのソケットが使っているので、ここでは触らない
+  let seatMaintenanceTimer = null
+  if (ROOM_STORE !== 'redis') {
+    restoreRooms().catch((error) =>
+      logger.error('Failed to restore rooms', { error })
     )
+  } else {
+    const maintainSeats = () =>
+      refreshSocketIds()
+        .then(sweepOrphanedSeats)
+        .catch((error) => logger.error('Failed to maintain seats', { error }))
+    maintainSeats()
+    // 期限が切れる前に延ばせるよう、期限の 1/3 ごとに行う
+    seatMaintenanceTimer = setInterval(maintainSeats, PEER_SOCKET_TTL_MS / 3)
+    seatMaintenanceTimer.unref()
+  }
+
+  // このプロセスに繋がっているソケットがすべて切断するか、時間切れになるまで待つ
+  function waitForSocketsToDrain(timeoutMs) {
+    const deadline = Date.now() + timeoutMs
+    return new Promise((resolve) => {
+      const check = () => {
+        if (io.of('/').sockets.size === 0 || Date.now() >= deadline) {
+          resolve()
+          return
+        }
+        setTimeout(check, 200)
+      }
+      check()
+    })
+  }
+
+  // ★ 停止する (SIGTERM)。クライアントに再起動を知らせ、切断を待ってから閉じる
+  async function shutdown(signal) {
+    if (isShuttingDown) return
+    isShuttingDown = true
+    logger.info('Shutting down', {
+      signal,
+      connectedSockets: io.of('/').sockets.size,
+      expectedDowntimeMs: SHUTDOWN_EXPECTED_DOWNTIME_MS,
+    })
+    // このプロセスのクライアントにだけ送る (他のプロセスのクライアントはそのまま)
+    // ROOM_STORE=memory では部屋が消えるので、在室中の参加者には部屋の控えも渡す
+    const snapshots = new Map() // roomCode -> { participants, restoreToken } (部屋が無ければ null)
+    const getRestoreToken = async (roomCode, peerId) => {
+      if (ROOM_STORE !== 'memory' || !roomCode || !peerId) return undefined
+      if (!snapshots.has(roomCode)) {
+        const room = await store.getRoom(roomCode)
+        snapshots.set(
+          roomCode,
+          room && {
+            participants: room.participants,
+            restoreToken: issueRestoreToken(roomCode, room),
+          }
+        )
+      }
+      const snapshot = snapshots.get(roomCode)
+      return snapshot?.participants[peerId] ? snapshot.restoreToken : undefined
+    }
+    for (const socket of [...io.of('/').sockets.values()]) {
+      socket.emit('server-restarting', {
+        expectedDowntimeMs: SHUTDOWN_EXPECTED_DOWNTIME_MS,
+        restoreToken: await getRestoreToken(
+          socket.currentRoomCode,
+          socket.currentPeerId
+        ),
+      })
+    }
+    await waitForSocketsToDrain(SHUTDOWN_DRAIN_TIMEOUT_MS)
+
+    // 猶予中の席は消さずに残す (ROOM_STORE=file / redis なら再起動後に戻れる)
+    clearInterval(seatMaintenanceTimer)
+    reconnectTimers.forEach((timer) => clearTimeout(timer))
+    reconnectTimers.clear()
+    shareOfferTimers.forEach(({ timer }) => clearTimeout(timer))
+    shareOfferTimers.clear()
+    logger.info('Closing server', {
+      remainingSockets: io.of('/').sockets.size,
+    })
+    await io.close() // 残っているソケットも切断し、HTTP サーバーも閉じる
+  }
+
+  // 指定したポートで待ち受け、実際のポート (0 を指定した場合は空いているポート) を返す
+  function listen(port, host = '0.0.0.0') {
+    return new Promise((resolve, reject) => {
+      httpServer.once('error', reject)
+      httpServer.listen(port, host, () => {
+        httpServer.off('error', reject)
+        const actualPort = httpServer.address().port
+        logger.info('WebSocket server listening', {
+          host,
+          port: actualPort,
+          nodeEnv: env.NODE_ENV,
+          protocolVersion: PROTOCOL_VERSION,
+          supportedProtocolVersions: SUPPORTED_PROTOCOL_VERSIONS,
+        })
+        if (LAN_MODE) {
+          logger.info('LAN mode: no external STUN servers, any origin')
+        }
+        resolve(actualPort)
+      })
+    })
+  }
+
+  // すぐに閉じる (テスト用。猶予中の席のタイマーも止める)
+  async function close() {
+    clearInterval(seatMaintenanceTimer)
+    reconnectTimers.forEach((timer) => clearTimeout(timer))
+    reconnectTimers.clear()
+    shareOfferTimers.forEach(({ timer }) => clearTimeout(timer))
+    shareOfferTimers.clear()
+    await io.close()
+    if (redisClient) await Promise.all([redisClient.quit(), subClient.quit()])
+  }
+
+  return { httpServer, io, store, listen, shutdown, close }
+}
+
+// --- node server.js で起動した場合 ---
+if (require.main === module) {
+  const server = createSignalingServer()
+  const port = process.env.PORT || 10000 // Renderが提供するPORT環境変数を使用。なければローカル開発用に10000など。
+  server.listen(port) // 明示的に 0.0.0.0 でリッスン
+
+  process.once('SIGTERM', () => {
+    server
+      .shutdown('SIGTERM')
+      .then(() => process.exit(0))
+      .catch((error) => {
+        defaultLogger.error('Failed to shut down gracefully', { error })
+        process.exit(1)
+      })
   })
+}
 
-  debugLog(
-    `[Server] Connection handler finished setting up listeners for socket ID: ${socket.id}`
-  )
-})
+module.exports = { createSignalingServer }
@@ -0,0 +1,83 @@
+// server/store/fileStore.js
+// 部屋の状態を JSON ファイルにも書き出し、再起動後に読み戻すストア
+// 読み込みはメモリから行い、変更があるたびにファイルへ書き出す
+const fs = require('fs')
+const path = require('path')
+const { createMemoryStore } = require('./memoryStore')
+const { logger: defaultLogger } = require('../logger')
+
+function loadRoomsFromFile(filePath, log) {
+  try {
+    const data = JSON.parse(fs.readFileSync(filePath, 'utf8'))
+    return data && typeof data.rooms === 'object' ? data.rooms : {}
+  } catch (error) {
+    if (error.code !== 'ENOENT') {
+      log.error('Failed to read the room store file', { filePath, error })
+    }
+    return {}
+  }
+}
+
+// logger は createSignalingServer に渡されたもの (テストで差し替えた出力先に揃える)
+function createFileStore(filePath, { logger = defaultLogger } = {}) {
+  const log = logger.child({ component: 'fileStore' })
+  const memory = createMemoryStore()
+  const initialRooms = loadRoomsFromFile(filePath, log)
+  Object.entries(initialRooms).forEach(([roomCode, room]) =>
+    memory.saveRoom(roomCode, room)
+  )
+
+  // 書き込み中に変更が来たら、終わった後にもう一度書く (書き込みは常に 1 本だけ)
+  let isDirty = false
+  let writing = null
+
+  const flush = async () => {
+    while (isDirty) {
+      isDirty = false
+      const rooms = await memory.listRooms()
+      const tmpPath = `${filePath}.tmp`
+      await fs.promises.mkdir(path.dirname(filePath), { recursive: true })
+      await fs.promises.writeFile(tmpPath, JSON.stringify({ rooms }))
+      await fs.promises.rename(tmpPath, filePath) // 途中で落ちても壊れないよう置き換える
+    }
+  }
+
+  const persist = () => {
+    isDirty = true
+    if (!writing) {
+      writing = flush()
+        .catch((error) =>
+          log.error('Failed to write the room store file', { filePath, error })
+        )
+        .finally(() => {
+          writing = null
+        })
+    }
+    return writing
+  }
+
+  return {
+    ...memory,
+    async saveRoom(roomCode, room) {
+      await memory.saveRoom(roomCode, room)
+      await persist()
+    },
+    async deleteRoom(roomCode) {
+      await memory.deleteRoom(roomCode)
+      await persist()
+    },
+    async updateRoom(roomCode, update) {
+      let isChanged = false
+      const room = await memory.updateRoom(roomCode, (current) => {
+        const next = update(current)
+        isChanged = next !== undefined
+        return next
+      })
+      if (isChanged) await persist()
+      return room
+    },
+    // peerId と socketId の対応はこのプロセスの接続にしか意味がないので書き出さない
+  }
+}
+
+module.exports = { createFileStore }
@@ -0,0 +1,46 @@
+// server/store/index.js
+// 部屋と参加者の状態を保持するストア
+// ROOM_STORE で実装を選ぶ: memory (デフォルト) / file (ROOM_STORE_FILE に保存)
+//   / redis (複数プロセスで共有する。REDIS_URL があればこれがデフォルト)
+//
+// どの実装も次の非同期メソッドを持つ:
+//   getRoom(roomCode) / saveRoom(roomCode, room) / deleteRoom(roomCode) / listRooms()
+//   updateRoom(roomCode, update)
+//   getSocketId(peerId) / setSocketId(peerId, socketId, ttlMs) / refreshSocketId(peerId, socketId, ttlMs)
+//   deleteSocketId(peerId)
+//   addReservation(roomCode, ttlMs) / hasReservation(roomCode) / deleteReservation(roomCode)
+// 参加者の出入りなどで部屋を書き換える場合は updateRoom を使う (読んでから書き戻すまでに他の更新が割り込まない)
+//   update は部屋 (無ければ null) を受け取り、書き換えた部屋を返す (null なら部屋を削除、undefined なら何もしない)
+//   Redis では他の更新と競合すると読み直して update をやり直すので、update の中で通知などの副作用を起こさないこと
+//   戻り値は更新後の部屋 (undefined を返した場合は今の部屋)
+const path = require('path')
+const { createMemoryStore } = require('./memoryStore')
+const { createFileStore } = require('./fileStore')
+const { createRedisStore } = require('./redisStore')
+
+const DEFAULT_STORE_FILE = path.join(__dirname, '..', 'data', 'rooms.json')
+
+function getRoomStoreType(env = process.env) {
+  return env.ROOM_STORE || (env.REDIS_URL ? 'redis' : 'memory')
+}
+
+function createRoomStore(
+  type = getRoomStoreType(),
+  { redisClient, env = process.env, logger } = {}
+) {
+  switch (type) {
+    case 'memory':
+      return createMemoryStore()
+    case 'file':
+      return createFileStore(env.ROOM_STORE_FILE || DEFAULT_STORE_FILE, {
+        logger,
+      })
+    case 'redis':
+      if (!redisClient) throw new Error('ROOM_STORE=redis requires REDIS_URL')
+      return createRedisStore(redisClient)
+    default:
+      throw new Error(`Unknown ROOM_STORE: ${type}`)
+  }
+}
+
+module.exports = { createRoomStore, getRoomStoreType }
@@ -0,0 +1,70 @@
+// server/store/memoryStore.js
+// プロセスのメモリだけに保持するストア (再起動すると部屋は消える)
+
+function createMemoryStore() {
+  const rooms = new Map() // roomCode -> 部屋の状態
+  const peerSockets = new Map() // peerId -> socketId
+  const reservations = new Map() // roomCode -> 予約の期限
+
+  // 期限切れの予約を掃除する (予約を追加するたびに呼ぶ)
+  const sweepReservations = () => {
+    const now = Date.now()
+    reservations.forEach((expiresAt, roomCode) => {
+      if (expiresAt <= now) reservations.delete(roomCode)
+    })
+  }
+
+  return {
+    async getRoom(roomCode) {
+      return rooms.get(roomCode) || null
+    },
+    async saveRoom(roomCode, room) {
+      rooms.set(roomCode, room)
+    },
+    async deleteRoom(roomCode) {
+      rooms.delete(roomCode)
+    },
+    // 読んでから書き戻すまでに await を挟まないので、他の更新は割り込まない
+    async updateRoom(roomCode, update) {
+      const current = rooms.get(roomCode) || null
+      const next = update(current)
+      if (next === undefined) return current
+      if (next) rooms.set(roomCode, next)
+      else rooms.delete(roomCode)
+      return next
+    },
+    // 全部屋 ({ [roomCode]: room }) を返す (起動時の復元・デバッグ用)
+    async listRooms() {
+      return Object.fromEntries(rooms)
+    },
+
+    async getSocketId(peerId) {
+      return peerSockets.get(peerId) || null
+    },
+    // このプロセスのソケットだけなので期限 (ttlMs) は使わない (プロセスと一緒に消える)
+    async setSocketId(peerId, socketId) {
+      peerSockets.set(peerId, socketId)
+    },
+    async refreshSocketId() {},
+    async deleteSocketId(peerId) {
+      peerSockets.delete(peerId)
+    },
+
+    // create-room で発行した部屋コードの予約 (既に予約済みなら false)
+    async addReservation(roomCode, ttlMs) {
+      sweepReservations()
+      if (reservations.has(roomCode)) return false
+      reservations.set(roomCode, Date.now() + ttlMs)
+      return true
+    },
+    async hasReservation(roomCode) {
+      const expiresAt = reservations.get(roomCode)
+      return !!expiresAt && expiresAt > Date.now()
+    },
+    async deleteReservation(roomCode) {
+      reservations.delete(roomCode)
+    },
+  }
+}
+
+module.exports = { createMemoryStore }
@@ -0,0 +1,121 @@
+// server/store/redisStore.js
+// 部屋の状態を Redis に置き、複数のシグナリングサーバーで共有するストア
+// 部屋は JSON 文字列として保存するので、getRoom は毎回新しいオブジェクトを返す
+// updateRoom は WATCH / MULTI で書き込み、他のプロセス (または同じプロセスの別の処理) と競合したらやり直す
+const { WatchError } = require('redis')
+
+const KEY_PREFIX = 'addcan:'
+const ROOM_INDEX_KEY = `${KEY_PREFIX}rooms` // 部屋コードの一覧 (Set)
+const roomKey = (roomCode) => `${KEY_PREFIX}room:${roomCode}`
+const socketKey = (peerId) => `${KEY_PREFIX}peer-socket:${peerId}`
+const reservationKey = (roomCode) => `${KEY_PREFIX}reservation:${roomCode}`
+const MAX_UPDATE_ATTEMPTS = 10 // 競合が続いた場合のやり直しの上限
+// 紐付けが今も同じソケットを指している場合だけ期限を延ばす (他のソケットに移っていれば触らない)
+const REFRESH_SOCKET_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('PEXPIRE', KEYS[1], ARGV[2])
+end
+return 0`
+
+function createRedisStore(client) {
+  return {
+    async getRoom(roomCode) {
+      const json = await client.get(roomKey(roomCode))
+      return json ? JSON.parse(json) : null
+    },
+    async saveRoom(roomCode, room) {
+      await client
+        .multi()
+        .set(roomKey(roomCode), JSON.stringify(room))
+        .sAdd(ROOM_INDEX_KEY, roomCode)
+        .exec()
+    },
+    async deleteRoom(roomCode) {
+      await client
+        .multi()
+        .del(roomKey(roomCode))
+        .sRem(ROOM_INDEX_KEY, roomCode)
+        .exec()
+    },
+    async updateRoom(roomCode, update) {
+      const key = roomKey(roomCode)
+      for (let attempt = 1; ; attempt++) {
+        try {
+          // WATCH は接続ごとなので、専用の接続で読み書きする
+          return await client.executeIsolated(async (isolated) => {
+            await isolated.watch(key)
+            const json = await isolated.get(key)
+            const current = json ? JSON.parse(json) : null
+            const next = update(current)
+            if (next === undefined) {
+              await isolated.unwatch()
+              return current
+            }
+            const transaction = isolated.multi()
+            if (next) {
+              transaction
+                .set(key, JSON.stringify(next))
+                .sAdd(ROOM_INDEX_KEY, roomCode)
+            } else {
+              transaction.del(key).sRem(ROOM_INDEX_KEY, roomCode)
+            }
+            await transaction.exec() // 読んだ後に書き換えられていれば WatchError
+            return next
+          })
+        } catch (error) {
+          if (
+            !(error instanceof WatchError) ||
+            attempt >= MAX_UPDATE_ATTEMPTS
+          ) {
+            throw error
+          }
+        }
+      }
+    },
+    async listRooms() {
+      const roomCodes = await client.sMembers(ROOM_INDEX_KEY)
+      if (roomCodes.length === 0) return {}
+      const values = await client.mGet(roomCodes.map(roomKey))
+      const rooms = {}
+      roomCodes.forEach((roomCode, index) => {
+        if (values[index]) rooms[roomCode] = JSON.parse(values[index])
+      })
+      return rooms
+    },
+
+    async getSocketId(peerId) {
+      return (await client.get(socketKey(peerId))) || null
+    },
+    // 期限を付けておき、繋がっている間は refreshSocketId で延ばす
+    // (プロセスが落ちても紐付けが残り続け、席が空かなくなるのを防ぐ)
+    async setSocketId(peerId, socketId, ttlMs) {
+      await client.set(socketKey(peerId), socketId, { PX: ttlMs })
+    },
+    async refreshSocketId(peerId, socketId, ttlMs) {
+      await client.eval(REFRESH_SOCKET_SCRIPT, {
+        keys: [socketKey(peerId)],
+        arguments: [socketId, String(ttlMs)],
+      })
+    },
+    async deleteSocketId(peerId) {
+      await client.del(socketKey(peerId))
+    },
+
+    // 期限は Redis に任せる (NX なので同じコードを二重に予約しない)
+    async addReservation(roomCode, ttlMs) {
+      const result = await client.set(reservationKey(roomCode), '1', {
+        NX: true,
+        PX: ttlMs,
+      })
+      return result === 'OK'
+    },
+    async hasReservation(roomCode) {
+      return (await client.exists(reservationKey(roomCode))) === 1
+    },
+    async deleteReservation(roomCode) {
+      await client.del(reservationKey(roomCode))
+    },
+  }
+}
+
+module.exports = { createRedisStore }
@@ -0,0 +1,57 @@
+// server/test/displayName.test.js
+// 表示名の正規化 (空白・NFKC・文字数) と、重複した名前への番号付けを確認する
+const { test } = require('node:test')
+const assert = require('node:assert/strict')
+const {
+  MAX_DISPLAY_NAME_LENGTH,
+  normalizeDisplayName,
+  resolveDuplicateName,
+} = require('../displayName')
+
+test('trims whitespace and folds compatibility characters with NFKC', () => {
+  assert.equal(normalizeDisplayName('  ゲスト　'), 'ゲスト')
+  assert.equal(normalizeDisplayName('ｹﾞｽﾄ'), 'ゲスト')
+  assert.equal(normalizeDisplayName('ＡＢＣ１２３'), 'ABC123')
+})
+
+test('caps the length without splitting surrogate pairs', () => {
+  const long = '😀'.repeat(MAX_DISPLAY_NAME_LENGTH + 4)
+  assert.equal(normalizeDisplayName(long), '😀'.repeat(MAX_DISPLAY_NAME_LENGTH))
+  // 切り詰めた末尾に空白が残らない
+  assert.equal(normalizeDisplayName(`${'a'.repeat(15)} b`), 'a'.repeat(15))
+})
+
+test('returns an empty string for names that are blank after normalization', () => {
+  assert.equal(normalizeDisplayName(' 　 '), '')
+  assert.equal(normalizeDisplayName(undefined), '')
+})
+
+test('adds the first unused number to a duplicate name', () => {
+  assert.equal(resolveDuplicateName('ゲスト', ['ホスト']), 'ゲスト')
+  assert.equal(resolveDuplicateName('ゲスト', ['ゲスト']), 'ゲスト (2)')
+  assert.equal(
+    resolveDuplicateName('ゲスト', ['ゲスト', 'ゲスト (2)', 'ゲスト (3)']),
+    'ゲスト (4)'
+  )
+  // 番号付きの名前が空いていれば、そこを使う
+  assert.equal(
+    resolveDuplicateName('ゲスト', ['ゲスト', 'ゲスト (3)']),
+    'ゲスト (2)'
+  )
+})
+
+test('shortens a long duplicate so the numbered name still fits the limit', () => {
+  const name = 'あ'.repeat(MAX_DISPLAY_NAME_LENGTH)
+  const second = resolveDuplicateName(name, [name])
+  assert.equal(second, `${'あ'.repeat(MAX_DISPLAY_NAME_LENGTH - 4)} (2)`)
+  assert.equal(Array.from(second).length, MAX_DISPLAY_NAME_LENGTH)
+  // 番号の桁が増えた場合も収まる
+  const taken = [name]
+  for (let i = 2; i <= 10; i++) taken.push(resolveDuplicateName(name, taken))
+  assert.equal(taken[9], `${'あ'.repeat(MAX_DISPLAY_NAME_LENGTH - 5)} (10)`)
+  // 縮めた名前の末尾に空白が残らない
+  assert.equal(
+    resolveDuplicateName('abcdefghijk lmno', ['abcdefghijk lmno']),
+    'abcdefghijk (2)'
+  )
+})
@@ -0,0 +1,66 @@
+// server/test/iceServers.test.js
+// クライアントに配る ICE サーバーの一覧と、TURN の期限付き認証情報を確認する
+const { test } = require('node:test')
+const assert = require('node:assert/strict')
+const crypto = require('node:crypto')
+const {
+  createIceServerProvider,
+  createIceServerProviderFromEnv,
+} = require('../iceServers')
+const { createLogger } = require('../logger')
+
+test('offers only STUN when no TURN server is configured', () => {
+  const getIceServers = createIceServerProvider({ stunUrls: ['stun:a:3478'] })
+  assert.deepEqual(getIceServers('peer-1'), [{ urls: ['stun:a:3478'] }])
+})
+
+test('issues a TURN credential that the TURN server can verify with the shared secret', () => {
+  const getIceServers = createIceServerProvider({
+    stunUrls: [],
+    turnUrls: ['turn:localhost:3478'],
+    turnSecret: 'devsecret',
+    ttlSeconds: 600,
+    now: () => 1_700_000_000_000,
+  })
+  const [turn] = getIceServers('peer-1')
+
+  assert.deepEqual(turn.urls, ['turn:localhost:3478'])
+  assert.equal(turn.username, '1700000600:peer-1')
+  const expected = crypto
+    .createHmac('sha1', 'devsecret')
+    .update(turn.username)
+    .digest('base64')
+  assert.equal(turn.credential, expected)
+})
+
+test('does not offer TURN without a shared secret', () => {
+  const entries = []
+  const getIceServers = createIceServerProvider({
+    stunUrls: [],
+    turnUrls: ['turn:localhost:3478'],
+    logger: createLogger({
+      level: 'warn',
+      write: (line) => entries.push(JSON.parse(line)),
+    }),
+  })
+  assert.deepEqual(getIceServers('peer-1'), [])
+  // 警告は渡したロガーに出る
+  assert.deepEqual(
+    entries.map(({ level }) => level),
+    ['warn']
+  )
+})
+
+test('LAN mode offers no public STUN server unless one is configured', () => {
+  assert.deepEqual(
+    createIceServerProviderFromEnv({ LAN_MODE: '1' })('peer-1'),
+    []
+  )
+  assert.deepEqual(
+    createIceServerProviderFromEnv({
+      LAN_MODE: '1',
+      STUN_URLS: 'stun:192.168.0.10:3478',
+    })('peer-1'),
+    [{ urls: ['stun:192.168.0.10:3478'] }]
+  )
+})
@@ -0,0 +1,73 @@
+// server/test/logger.test.js
+// 構造化ログのレベルと、参加者名などを伏せる処理を確認する
+const { test } = require('node:test')
+const assert = require('node:assert/strict')
+const { createLogger, REDACTED } = require('../logger')
+
+// 出力された行を JSON として集める
+function createCapture(level) {
+  const entries = []
+  const logger = createLogger({
+    level,
+    write: (line) => entries.push(JSON.parse(line)),
+  })
+  return { logger, entries }
+}
+
+test('drops entries below the configured level', () => {
+  const { logger, entries } = createCapture('warn')
+  logger.info('hidden')
+  logger.warn('shown')
+  assert.deepEqual(
+    entries.map((entry) => entry.msg),
+    ['shown']
+  )
+})
+
+test('child loggers carry the correlation ID on every entry', () => {
+  const { logger, entries } = createCapture('debug')
+  const log = logger.child({ socketId: 'socket-1' })
+  log.debug('Socket connected')
+  log.info('Room created', { roomCode: 'room-abc123' })
+  assert.deepEqual(
+    entries.map(({ level, msg, socketId, roomCode }) => ({
+      level,
+      msg,
+      socketId,
+      roomCode,
+    })),
+    [
+      {
+        level: 'debug',
+        msg: 'Socket connected',
+        socketId: 'socket-1',
+        roomCode: undefined,
+      },
+      {
+        level: 'info',
+        msg: 'Room created',
+        socketId: 'socket-1',
+        roomCode: 'room-abc123',
+      },
+    ]
+  )
+})
+
+test('redacts participant names and secrets at any depth', () => {
+  const { logger, entries } = createCapture('info')
+  logger.info('Room state', {
+    room: { participants: { 'peer-1': 'Alice' }, hostPeerId: 'peer-1' },
+    name: 'Alice',
+    sessionToken: 'peer-1.signature',
+  })
+  const [entry] = entries
+  assert.equal(entry.room.participants, REDACTED)
+  assert.equal(entry.room.hostPeerId, 'peer-1')
+  assert.equal(entry.name, REDACTED)
+  assert.equal(entry.sessionToken, REDACTED)
+  assert.doesNotMatch(JSON.stringify(entry), /Alice/)
+})
+
+test('rejects an unknown level', () => {
+  assert.throws(() => createLogger({ level: 'verbose' }), /LOG_LEVEL/)
+})
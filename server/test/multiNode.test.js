@@ -0,0 +1,116 @@
+// server/test/multiNode.test.js
+// 2 つのシグナリングサーバーを Redis で繋いで起動し、別プロセス間で通知が届くことを確認する
+// 実行: REDIS_URL=redis://localhost:6379 npm test (REDIS_URL が無ければスキップ)
+const { test, after } = require('node:test')
+const assert = require('node:assert/strict')
+const { spawn } = require('node:child_process')
+const path = require('node:path')
+const { io } = require('socket.io-client')
+const { PROTOCOL_VERSION } = require('../protocol')
+
+const REDIS_URL = process.env.REDIS_URL
+const SERVER_PATH = path.join(__dirname, '..', 'server.js')
+const children = []
+const clients = []
+
+// サーバーを起動し、Redis に繋がるまで待つ
+function startNode(port) {
+  const child = spawn(process.execPath, [SERVER_PATH], {
+    env: {
+      ...process.env,
+      PORT: String(port),
+      REDIS_URL,
+      ROOM_STORE: 'redis',
+      SESSION_SECRET: 'multi-node-test',
+    },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  })
+  children.push(child)
+  return new Promise((resolve, reject) => {
+    let output = ''
+    child.stdout.on('data', (chunk) => {
+      output += chunk
+      if (output.includes('"msg":"Connected to Redis"')) resolve(child)
+    })
+    child.once('exit', (code) =>
+      reject(new Error(`Server on port ${port} exited early (code ${code})`))
+    )
+  })
+}
+
+function connect(port) {
+  const socket = io(`http://localhost:${port}`, {
+    auth: { protocolVersion: PROTOCOL_VERSION },
+    reconnection: false,
+    transports: ['websocket'],
+  })
+  clients.push(socket)
+  return new Promise((resolve, reject) => {
+    socket.once('connect', () => resolve(socket))
+    socket.once('connect_error', reject)
+  })
+}
+
+function waitFor(socket, event, timeoutMs = 5000) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Timed out waiting for ${event}`)),
+      timeoutMs
+    )
+    socket.once(event, (payload) => {
+      clearTimeout(timer)
+      resolve(payload)
+    })
+  })
+}
+
+after(() => {
+  clients.forEach((socket) => socket.disconnect())
+  children.forEach((child) => child.kill())
+})
+
+test(
+  'a join on node A notifies the sharer connected to node B',
+  { skip: !REDIS_URL && 'REDIS_URL is not set' },
+  async () => {
+    const portA = 10700 + Math.floor(Math.random() * 500)
+    const portB = portA + 1
+    await Promise.all([startNode(portA), startNode(portB)])
+
+    // 共有者は node B で部屋を作って画面共有を始める
+    const sharer = await connect(portB)
+    const { roomCode } = await sharer.emitWithAck('create-room', {})
+    const { peerId: sharerId } = await sharer.emitWithAck('register-peer', {
+      roomCode,
+    })
+    sharer.emit('join-room', { roomCode, peerId: sharerId, name: 'Sharer' })
+    await waitFor(sharer, 'room-state')
+    const shareResult = await sharer.emitWithAck('request-start-share')
+    assert.equal(shareResult.success, true)
+
+    // 参加者は node A から同じ部屋に入る (予約も部屋も Redis 経由で見える)
+    const joiner = await connect(portA)
+    const { peerId: joinerId } = await joiner.emitWithAck('register-peer', {
+      roomCode,
+    })
+    const initiate = waitFor(sharer, 'initiate-screen-share-to-new-peer')
+    const userJoined = waitFor(sharer, 'user-joined')
+    joiner.emit('join-room', { roomCode, peerId: joinerId, name: 'Joiner' })
+
+    const roomState = await waitFor(joiner, 'room-state')
+    assert.deepEqual(roomState.currentSharerIds, [sharerId])
+    assert.deepEqual(roomState.participants, { [sharerId]: 'Sharer' })
+    assert.equal((await userJoined).peerId, joinerId)
+    assert.deepEqual(await initiate, { newPeerId: joinerId })
+
+    // WebRTC のシグナリングもプロセスをまたいで中継される
+    const relayed = waitFor(sharer, 'signal')
+    const description = { type: 'offer', sdp: 'v=0' }
+    joiner.emit('signal', { to: sharerId, kind: 'call', description })
+    assert.deepEqual(await relayed, {
+      from: joinerId,
+      kind: 'call',
+      description,
+    })
+  }
+)
@@ -0,0 +1,696 @@
+// server/test/signaling.test.js
+// シグナリングサーバーを空いているポートで起動し、本物の socket.io クライアントで部屋のルールを確認する
+//   画面共有は同時に MAX_CONCURRENT_SHARES 人まで / 新しい参加者への共有開始の依頼 / 共有者の切断で共有を解放 / 空になった部屋の削除 / 同じ Peer ID での入り直し
+//   重複した表示名への番号付け / 画面共有の順番待ち / サーバーが持つ参加者の状態 (ミュート・画面共有) / /metrics の現在値
+//   再起動で消えた部屋 (ROOM_STORE=memory) の控えからの作り直し / セッショントークン付きの入り直しはレート制限しない
+//   キックされた人のソケットからの画面共有の依頼やシグナルは受け付けない / 部屋の作成にも IP ごとの上限をかける
+const { test, beforeEach, afterEach } = require('node:test')
+const assert = require('node:assert/strict')
+const { io } = require('socket.io-client')
+const { createSignalingServer } = require('../server')
+const { createLogger } = require('../logger')
+const { PROTOCOL_VERSION, JOIN_ERROR } = require('../protocol')
+
+const RECONNECT_GRACE_MS = 200
+const SHARE_OFFER_TIMEOUT_MS = 300
+const MAX_CONCURRENT_SHARES = 2
+
+let server
+let url
+let clients
+
+// 空いているポートでサーバーを起動する (再起動を確かめるテストでは、同じ設定でもう一度起動する)
+async function startServer() {
+  server = createSignalingServer({
+    env: {
+      ROOM_STORE: 'memory',
+      SESSION_SECRET: 'signaling-test',
+      RECONNECT_GRACE_MS: String(RECONNECT_GRACE_MS),
+      SHARE_OFFER_TIMEOUT_MS: String(SHARE_OFFER_TIMEOUT_MS),
+      MAX_CONCURRENT_SHARES: String(MAX_CONCURRENT_SHARES),
+    },
+    logger: createLogger({ level: 'silent' }),
+  })
+  const port = await server.listen(0, '127.0.0.1')
+  url = `http://127.0.0.1:${port}`
+}
+
+beforeEach(async () => {
+  await startServer()
+  clients = []
+})
+
+afterEach(async () => {
+  clients.forEach((socket) => socket.disconnect())
+  await server.close()
+})
+
+// 届いたイベントを順番に記録するクライアント
+async function connect() {
+  const socket = io(url, {
+    auth: { protocolVersion: PROTOCOL_VERSION },
+    reconnection: false,
+    transports: ['websocket'],
+  })
+  socket.received = []
+  socket.onAny((event, payload) => socket.received.push([event, payload]))
+  clients.push(socket)
+  await new Promise((resolve, reject) => {
+    socket.once('connect', resolve)
+    socket.once('connect_error', reject)
+  })
+  return socket
+}
+
+function waitFor(socket, event, timeoutMs = 2000) {
+  return new Promise((resolve, reject) => {
+    const timer = setTimeout(
+      () => reject(new Error(`Timed out waiting for ${event}`)),
+      timeoutMs
+    )
+    socket.once(event, (payload) => {
+      clearTimeout(timer)
+      resolve(payload)
+    })
+  })
+}
+
+// /metrics を取得し、ラベルの無い系列を { 名前: 値 } で返す
+async function scrapeMetrics() {
+  const response = await fetch(`${url}/metrics`)
+  assert.equal(response.status, 200)
+  const text = await response.text()
+  return Object.fromEntries(
+    text
+      .split('\n')
+      .filter((line) => /^[a-z_]+ /.test(line))
+      .map((line) => {
+        const [name, value] = line.split(' ')
+        return [name, Number(value)]
+      })
+  )
+}
+
+const sleep = (ms) => new Promise((resolve) => setTimeout(resolve, ms))
+
+// Peer ID を発行してもらって入室し、room-state を返す
+async function join(socket, roomCode, name) {
+  const { peerId } = await socket.emitWithAck('register-peer', { roomCode })
+  const roomState = waitFor(socket, 'room-state')
+  socket.emit('join-room', { roomCode, peerId, name })
+  socket.peerId = peerId
+  socket.roomState = await roomState
+  socket.received.length = 0 // 入室までのイベントは各テストの確認対象にしない
+  return socket.roomState
+}
+
+// 部屋を作り、作成者 (ホスト) と参加者を入室させる
+async function createRoomWith(...names) {
+  const sockets = []
+  let roomCode
+  for (const name of names) {
+    const socket = await connect()
+    if (!roomCode) ({ roomCode } = await socket.emitWithAck('create-room', {}))
+    await join(socket, roomCode, name)
+    sockets.push(socket)
+  }
+  // 後から入った人の user-joined を先にいた人が受け取り終えるまで待つ
+  await sleep(50)
+  sockets.forEach((socket) => (socket.received.length = 0))
+  return { roomCode, sockets }
+}
+
+test('the first participant becomes the host and later joiners are announced', async () => {
+  const host = await connect()
+  const { roomCode } = await host.emitWithAck('create-room', {})
+  const hostState = await join(host, roomCode, 'Host')
+  assert.deepEqual(
+    { ...hostState, sessionToken: typeof hostState.sessionToken },
+    {
+      participants: {},
+      participantStates: {
+        [host.peerId]: { isMuted: false, isSharing: false },
+      },
+      currentSharerIds: [],
+      maxConcurrentShares: MAX_CONCURRENT_SHARES,
+      hostPeerId: host.peerId,
+      isLocked: false,
+      sessionToken: 'string',
+      name: 'Host',
+    }
+  )
+
+  const guest = await connect()
+  const userJoined = waitFor(host, 'user-joined')
+  const guestState = await join(guest, roomCode, 'Guest')
+  assert.deepEqual(guestState.participants, { [host.peerId]: 'Host' })
+  assert.equal(guestState.hostPeerId, host.peerId)
+  assert.deepEqual(await userJoined, {
+    peerId: guest.peerId,
+    name: 'Guest',
+    hostPeerId: host.peerId,
+  })
+})
+
+test('duplicate names are normalized and numbered for everyone in the room', async () => {
+  const {
+    roomCode,
+    sockets: [first],
+  } = await createRoomWith('ゲスト')
+
+  const second = await connect()
+  const userJoined = waitFor(first, 'user-joined')
+  const secondState = await join(second, roomCode, ' ｹﾞｽﾄ ')
+  assert.equal(secondState.name, 'ゲスト (2)')
+  assert.deepEqual(secondState.participants, { [first.peerId]: 'ゲスト' })
+  assert.equal((await userJoined).name, 'ゲスト (2)')
+
+  // 空白だけの名前では入れない
+  const blank = await connect()
+  const { peerId } = await blank.emitWithAck('register-peer', { roomCode })
+  blank.emit('join-room', { roomCode, peerId, name: '\u3000 ' })
+  assert.deepEqual(await waitFor(blank, 'join-rejected'), {
+    code: JOIN_ERROR.INVALID_PAYLOAD,
+  })
+})
+
+test('participants can share the screen at once up to the limit', async () => {
+  const {
+    sockets: [alice, bob, carol],
+  } = await createRoomWith('Alice', 'Bob', 'Carol')
+
+  assert.deepEqual(await alice.emitWithAck('request-start-share'), {
+    success: true,
+  })
+  assert.deepEqual(await bob.emitWithAck('request-start-share'), {
+    success: true,
+  })
+  assert.deepEqual(await carol.emitWithAck('request-start-share'), {
+    success: false,
+    message: 'The maximum number of users are already sharing.',
+    error: 'SHARE_BUSY',
+  })
+
+  // 共有者でない人の停止通知は無視される
+  carol.emit('notify-stop-share')
+  await sleep(50)
+
+  const stoppedAlice = waitFor(carol, 'screen-share-status')
+  alice.emit('notify-stop-share')
+  await stoppedAlice
+  assert.deepEqual(await carol.emitWithAck('request-start-share'), {
+    success: true,
+  })
+  await sleep(50)
+
+  const status = (peerId, isSharing, sharerPeerIds) => [
+    'screen-share-status',
+    { peerId, isSharing, sharerPeerIds },
+  ]
+  const expected = [
+    status(alice.peerId, true, [alice.peerId]),
+    status(bob.peerId, true, [alice.peerId, bob.peerId]),
+    status(alice.peerId, false, [bob.peerId]),
+    status(carol.peerId, true, [bob.peerId, carol.peerId]),
+  ]
+  const statuses = (socket) =>
+    socket.received.filter(([event]) => event === 'screen-share-status')
+  assert.deepEqual(statuses(alice), expected)
+  assert.deepEqual(statuses(bob), expected)
+  assert.deepEqual(statuses(carol), expected)
+})
+
+test('a denied participant can wait in line and is offered the share when it is freed', async () => {
+  const {
+    roomCode,
+    sockets: [alice, bob, carol, erin],
+  } = await createRoomWith('Alice', 'Bob', 'Carol', 'Erin')
+  // 共有枠を埋める
+  await erin.emitWithAck('request-start-share')
+  await alice.emitWithAck('request-start-share')
+  await sleep(50)
+
+  assert.deepEqual(await bob.emitWithAck('join-share-queue'), {
+    success: true,
+    position: 1,
+  })
+  assert.deepEqual(await carol.emitWithAck('join-share-queue'), {
+    success: true,
+    position: 2,
+  })
+  // 並び直しても順番は変わらない
+  assert.deepEqual(await bob.emitWithAck('join-share-queue'), {
+    success: true,
+    position: 1,
+  })
+  await sleep(50)
+  assert.deepEqual(alice.received.at(-1), [
+    'share-queue-updated',
+    {
+      queue: [bob.peerId, carol.peerId],
+      offeredPeerId: null,
+      offerExpiresInMs: null,
+    },
+  ])
+
+  // 後から入った人にも順番待ちが見える
+  const dave = await connect()
+  const queueForDave = waitFor(dave, 'share-queue-updated')
+  await join(dave, roomCode, 'Dave')
+  assert.deepEqual((await queueForDave).queue, [bob.peerId, carol.peerId])
+
+  // 共有が終わると先頭の人に順番が来て、その人だけが始められる
+  const offered = waitFor(carol, 'share-queue-updated')
+  alice.emit('notify-stop-share')
+  const offer = await offered
+  assert.equal(offer.offeredPeerId, bob.peerId)
+  assert.ok(offer.offerExpiresInMs > 0)
+  assert.ok(offer.offerExpiresInMs <= SHARE_OFFER_TIMEOUT_MS)
+  assert.deepEqual(await alice.emitWithAck('request-start-share'), {
+    success: false,
+    message: 'The next user in the queue is about to share.',
+    error: 'SHARE_BUSY',
+  })
+
+  const queueAfterStart = waitFor(carol, 'share-queue-updated')
+  assert.deepEqual(await bob.emitWithAck('request-start-share'), {
+    success: true,
+  })
+  assert.deepEqual(await queueAfterStart, {
+    queue: [carol.peerId],
+    offeredPeerId: null,
+    offerExpiresInMs: null,
+  })
+})
+
+test('an unanswered offer passes to the next in line and leaving frees the share', async () => {
+  const {
+    sockets: [alice, bob, carol, erin],
+  } = await createRoomWith('Alice', 'Bob', 'Carol', 'Erin')
+  await erin.emitWithAck('request-start-share')
+  await alice.emitWithAck('request-start-share')
+  await bob.emitWithAck('join-share-queue')
+  await carol.emitWithAck('join-share-queue')
+
+  // 共有者が退出すると先頭の人に順番が来る
+  const offeredToBob = waitFor(carol, 'share-queue-updated')
+  alice.disconnect()
+  assert.equal((await offeredToBob).offeredPeerId, bob.peerId)
+
+  // 時間内に始めなければ順番待ちから外れ、次の人に回る
+  const expired = waitFor(
+    bob,
+    'share-offer-expired',
+    SHARE_OFFER_TIMEOUT_MS * 5
+  )
+  const offeredToCarol = waitFor(
+    carol,
+    'share-queue-updated',
+    SHARE_OFFER_TIMEOUT_MS * 5
+  )
+  await expired
+  assert.deepEqual((await offeredToCarol).queue, [carol.peerId])
+
+  // 順番を見送ると、並んでいる人がいなくなる
+  const emptied = waitFor(bob, 'share-queue-updated')
+  assert.deepEqual(await carol.emitWithAck('leave-share-queue'), {
+    success: true,
+  })
+  assert.deepEqual(await emptied, {
+    queue: [],
+    offeredPeerId: null,
+    offerExpiresInMs: null,
+  })
+  assert.deepEqual(await bob.emitWithAck('request-start-share'), {
+    success: true,
+  })
+})
+
+test('a kicked participant can neither share nor wait in line', async () => {
+  const {
+    sockets: [alice, bob],
+  } = await createRoomWith('Alice', 'Bob')
+
+  const kicked = waitFor(bob, 'kicked')
+  assert.deepEqual(
+    await alice.emitWithAck('kick-participant', { peerId: bob.peerId }),
+    { success: true }
+  )
+  await kicked
+
+  // キックされた後も同じソケットは繋がったままなので、そこからの依頼は断る
+  const notInRoom = { success: false, message: 'Not in a valid room.' }
+  assert.deepEqual(await bob.emitWithAck('request-start-share'), notInRoom)
+  assert.deepEqual(await bob.emitWithAck('join-share-queue'), notInRoom)
+  await sleep(50)
+  assert.deepEqual(
+    alice.received.filter(
+      ([event]) =>
+        event === 'screen-share-status' || event === 'share-queue-updated'
+    ),
+    []
+  )
+})
+
+test('signals from a kicked participant are no longer delivered', async () => {
+  const {
+    sockets: [alice, bob],
+  } = await createRoomWith('Alice', 'Bob')
+  const offer = {
+    to: alice.peerId,
+    kind: 'call',
+    description: { type: 'offer', sdp: 'v=0' },
+  }
+
+  // キックされる前は届く
+  const delivered = waitFor(alice, 'signal')
+  bob.emit('signal', offer)
+  assert.equal((await delivered).from, bob.peerId)
+
+  const kicked = waitFor(bob, 'kicked')
+  await alice.emitWithAck('kick-participant', { peerId: bob.peerId })
+  await kicked
+  alice.received.length = 0
+
+  // キックされた後は、同じソケットから通話を張り直せない
+  bob.emit('signal', offer)
+  await sleep(50)
+  assert.deepEqual(
+    alice.received.filter(([event]) => event === 'signal'),
+    []
+  )
+})
+
+test('late joiners receive the mute and share state held by the server', async () => {
+  const {
+    roomCode,
+    sockets: [alice, bob],
+  } = await createRoomWith('Alice', 'Bob')
+
+  // 本人を含む部屋の全員に届く
+  const bobMuted = [alice, bob].map((s) => waitFor(s, 'participant-updated'))
+  bob.emit('set-mute', { isMuted: true })
+  for (const payload of await Promise.all(bobMuted)) {
+    assert.deepEqual(payload, {
+      peerId: bob.peerId,
+      isMuted: true,
+      isSharing: false,
+    })
+  }
+
+  const aliceSharing = waitFor(bob, 'participant-updated')
+  await alice.emitWithAck('request-start-share')
+  assert.deepEqual(await aliceSharing, {
+    peerId: alice.peerId,
+    isMuted: false,
+    isSharing: true,
+  })
+
+  // ミュートしたまま入った人も、他の参加者に知らされる
+  const carol = await connect()
+  const { peerId } = await carol.emitWithAck('register-peer', { roomCode })
+  const carolMuted = waitFor(alice, 'participant-updated')
+  const roomState = waitFor(carol, 'room-state')
+  carol.emit('join-room', { roomCode, peerId, name: 'Carol', isMuted: true })
+  assert.deepEqual((await roomState).participantStates, {
+    [alice.peerId]: { isMuted: false, isSharing: true },
+    [bob.peerId]: { isMuted: true, isSharing: false },
+    [peerId]: { isMuted: true, isSharing: false },
+  })
+  assert.deepEqual(await carolMuted, {
+    peerId,
+    isMuted: true,
+    isSharing: false,
+  })
+})
+
+test('every sharer is asked to share with each participant who joins', async () => {
+  const {
+    roomCode,
+    sockets: [sharer, cosharer, viewer],
+  } = await createRoomWith('Sharer', 'Cosharer', 'Viewer')
+  await sharer.emitWithAck('request-start-share')
+  await cosharer.emitWithAck('request-start-share')
+  await sleep(50)
+  sharer.received.length = 0
+  cosharer.received.length = 0
+  viewer.received.length = 0
+
+  const newcomer = await connect()
+  const roomState = await join(newcomer, roomCode, 'Newcomer')
+  assert.deepEqual(roomState.currentSharerIds, [sharer.peerId, cosharer.peerId])
+  await sleep(50)
+
+  const userJoined = [
+    'user-joined',
+    { peerId: newcomer.peerId, name: 'Newcomer', hostPeerId: sharer.peerId },
+  ]
+  const initiate = [
+    'initiate-screen-share-to-new-peer',
+    { newPeerId: newcomer.peerId },
+  ]
+  assert.deepEqual(sharer.received, [userJoined, initiate])
+  assert.deepEqual(cosharer.received, [userJoined, initiate])
+  assert.deepEqual(viewer.received, [userJoined])
+})
+
+test('leaving releases the screen share and hands over the host', async () => {
+  const {
+    sockets: [sharer, viewer],
+  } = await createRoomWith('Sharer', 'Viewer')
+  await sharer.emitWithAck('request-start-share')
+  await waitFor(viewer, 'screen-share-status')
+  viewer.received.length = 0
+
+  sharer.disconnect() // 自分から退出した場合は猶予を待たずに席を空ける
+  await waitFor(viewer, 'host-changed')
+
+  assert.deepEqual(viewer.received, [
+    ['user-left', { peerId: sharer.peerId }],
+    [
+      'screen-share-status',
+      { peerId: sharer.peerId, isSharing: false, sharerPeerIds: [] },
+    ],
+    ['host-changed', { hostPeerId: viewer.peerId }],
+  ])
+  assert.deepEqual(await viewer.emitWithAck('request-start-share'), {
+    success: true,
+  })
+})
+
+test('a dropped sharer keeps the share until the grace period expires', async () => {
+  const {
+    roomCode,
+    sockets: [sharer, viewer],
+  } = await createRoomWith('Sharer', 'Viewer')
+  await sharer.emitWithAck('request-start-share')
+  await waitFor(viewer, 'screen-share-status')
+  viewer.received.length = 0
+
+  sharer.io.engine.close() // 回線断 (サーバーからは transport close に見える)
+  await sleep(RECONNECT_GRACE_MS / 2)
+  assert.deepEqual(viewer.received, [])
+  assert.deepEqual((await server.store.getRoom(roomCode)).sharerPeerIds, [
+    sharer.peerId,
+  ])
+
+  await waitFor(viewer, 'host-changed', RECONNECT_GRACE_MS * 5)
+  assert.deepEqual(
+    viewer.received.map(([event]) => event),
+    ['user-left', 'screen-share-status', 'host-changed']
+  )
+  assert.deepEqual(viewer.received[1][1], {
+    peerId: sharer.peerId,
+    isSharing: false,
+    sharerPeerIds: [],
+  })
+})
+
+test('the room is deleted once the last participant leaves', async () => {
+  const {
+    roomCode,
+    sockets: [alice, bob],
+  } = await createRoomWith('Alice', 'Bob')
+
+  alice.disconnect()
+  await waitFor(bob, 'user-left')
+  assert.ok(await server.store.getRoom(roomCode))
+
+  bob.disconnect()
+  await sleep(50)
+  assert.equal(await server.store.getRoom(roomCode), null)
+
+  // 予約も使用済みなので、同じコードでは入れない
+  const latecomer = await connect()
+  assert.deepEqual(
+    await latecomer.emitWithAck('check-room-exists', { roomCode }),
+    { exists: false }
+  )
+  const { peerId } = await latecomer.emitWithAck('register-peer', { roomCode })
+  latecomer.emit('join-room', { roomCode, peerId, name: 'Latecomer' })
+  assert.deepEqual(await waitFor(latecomer, 'join-rejected'), {
+    code: JOIN_ERROR.ROOM_NOT_FOUND,
+  })
+})
+
+test('re-joining with the same peer ID evicts the old socket without freeing the seat', async () => {
+  const {
+    roomCode,
+    sockets: [alice, bob],
+  } = await createRoomWith('Alice', 'Bob')
+
+  // 同じセッショントークンを持つ別のタブから入り直す
+  const newTab = await connect()
+  const replaced = waitFor(alice, 'session-replaced')
+  const disconnected = waitFor(alice, 'disconnect')
+  newTab.emit('join-room', {
+    roomCode,
+    peerId: alice.peerId,
+    name: 'Alice',
+    sessionToken: alice.roomState.sessionToken,
+  })
+  const roomState = await waitFor(newTab, 'room-state')
+  assert.deepEqual(roomState.participants, {
+    [alice.peerId]: 'Alice',
+    [bob.peerId]: 'Bob',
+  })
+  assert.deepEqual(await replaced, { roomCode })
+  assert.equal(await disconnected, 'io server disconnect')
+
+  // 古いソケットの切断や猶予切れで、新しいソケットの席が消えない
+  await sleep(RECONNECT_GRACE_MS * 2)
+  assert.deepEqual(bob.received, [])
+  const room = await server.store.getRoom(roomCode)
+  assert.deepEqual(
+    Object.keys(room.participants).sort(),
+    [alice.peerId, bob.peerId].sort()
+  )
+  assert.equal(room.hostPeerId, alice.peerId)
+
+  // 席は新しいソケットのものとして動く
+  assert.deepEqual(await newTab.emitWithAck('request-start-share'), {
+    success: true,
+  })
+})
+
+test('joins that carry a session token are not rate limited', async () => {
+  const {
+    roomCode,
+    sockets: [alice],
+  } = await createRoomWith('Alice')
+
+  // 1 つのソケットからの join-room は 1 分に 10 回までだが、在室を証明できる入り直しは数えない
+  for (let i = 0; i < 12; i++) {
+    const roomState = waitFor(alice, 'room-state')
+    alice.emit('join-room', {
+      roomCode,
+      peerId: alice.peerId,
+      name: 'Alice',
+      sessionToken: alice.roomState.sessionToken,
+    })
+    await roomState
+  }
+  assert.equal(
+    alice.received.some(([event]) => event === 'join-rejected'),
+    false
+  )
+})
+
+test('creating rooms shares the per-IP limit with room lookups', async () => {
+  const socket = await connect()
+
+  // 同じ IP からは 1 分に 30 回まで (check-room-exists / join-room と合わせて数える)
+  for (let i = 0; i < 29; i++) {
+    const { success } = await socket.emitWithAck('create-room', {})
+    assert.equal(success, true)
+  }
+  await socket.emitWithAck('check-room-exists', { roomCode: 'room-000000' })
+  const limited = await socket.emitWithAck('create-room', {})
+  assert.equal(limited.success, false)
+  assert.equal(limited.error, JOIN_ERROR.RATE_LIMITED)
+  assert.ok(limited.retryAfterMs > 0)
+})
+
+test('/metrics reports the rooms, participants and screen shares active now', async () => {
+  const {
+    sockets: [alice, bob],
+  } = await createRoomWith('Alice', 'Bob')
+  await createRoomWith('Carol')
+
+  await alice.emitWithAck('request-start-share')
+  await bob.emitWithAck('request-start-share')
+  const metrics = await scrapeMetrics()
+  assert.equal(metrics.addcan_rooms_active, 2)
+  assert.equal(metrics.addcan_participants_active, 3)
+  assert.equal(metrics.addcan_screen_shares_active, 2)
+
+  alice.emit('notify-stop-share')
+  await waitFor(bob, 'screen-share-status')
+  assert.equal((await scrapeMetrics()).addcan_screen_shares_active, 1)
+})
+
+test('a room dropped by a restart is rebuilt from its snapshot, but only once', async () => {
+  const {
+    roomCode,
+    sockets: [alice, bob],
+  } = await createRoomWith('Alice', 'Bob')
+  await alice.emitWithAck('lock-room', {})
+
+  // クライアントと同じく、server-restarting を受けたら切断する
+  const notices = [alice, bob].map((socket) =>
+    waitFor(socket, 'server-restarting').then((notice) => {
+      socket.disconnect()
+      return notice
+    })
+  )
+  const stopped = server.shutdown('SIGTERM')
+  const [aliceNotice, bobNotice] = await Promise.all(notices)
+  await stopped
+  await startServer()
+
+  const rejoin = async (socket, notice) => {
+    const again = await connect()
+    const roomState = waitFor(again, 'room-state')
+    again.emit('join-room', {
+      roomCode,
+      peerId: socket.peerId,
+      name: socket.roomState.name,
+      sessionToken: socket.roomState.sessionToken,
+      restoreToken: notice.restoreToken,
+    })
+    return { again, roomState: await roomState }
+  }
+
+  // ホストより先に戻っても、ホストとロックは再起動前のまま
+  const { again: bobAgain, roomState } = await rejoin(bob, bobNotice)
+  assert.deepEqual(roomState.participants, {
+    [alice.peerId]: 'Alice',
+    [bob.peerId]: 'Bob',
+  })
+  assert.equal(roomState.hostPeerId, alice.peerId)
+  assert.equal(roomState.isLocked, true)
+
+  // ホストは猶予中の席に戻る (退出/入室は通知されない)
+  const { again: aliceAgain } = await rejoin(alice, aliceNotice)
+  await sleep(RECONNECT_GRACE_MS * 2)
+  assert.deepEqual(
+    bobAgain.received.map(([event]) => event),
+    ['room-state']
+  )
+
+  // 全員が退出して部屋が消えた後は、同じ控えでも作り直せない
+  aliceAgain.disconnect()
+  bobAgain.disconnect()
+  await sleep(50)
+  assert.equal(await server.store.getRoom(roomCode), null)
+  const latecomer = await connect()
+  const rejected = waitFor(latecomer, 'join-rejected')
+  latecomer.emit('join-room', {
+    roomCode,
+    peerId: alice.peerId,
+    name: 'Alice',
+    sessionToken: alice.roomState.sessionToken,
+    restoreToken: aliceNotice.restoreToken,
+  })
+  assert.deepEqual(await rejected, { code: JOIN_ERROR.ROOM_NOT_FOUND })
+})
@@ -12,6 +12,8 @@ import {
   FiCheck,
   FiVolume2,
   FiVolumeX,
+  FiLock,
+  FiUnlock,
 } from 'react-icons/fi'
 
 // Props の型定義
@@ -28,12 +30,16 @@ type CallControlsFooterProps = {
   leaveRoom: () => void
   myPeerId: string
   participants: Participant[]
-  screenSharingPeerId: string | null
+  screenSharingPeerIds: string[]
   roomCode: string | undefined
-  screenVideoRef: React.RefObject<HTMLVideoElement | null>
+  screenVideoRefs: React.RefObject<{ [peerId: string]: HTMLVideoElement }> // 共有者ごとのリモート画面用 <video> 要素
   isScreenShareButtonDisabled: boolean
+  onScreenShareBusy: () => void // ★ 共有枠が埋まっている時に押された (順番待ちに並ぶかを選んでもらう)
   switchMicrophone: (deviceId: string) => Promise<void> // ★ マイク切り替え関数を受け取る
   stopLocalAudioAnalysis: () => void // ★ 音声解析停止関数も必要
+  isRoomLocked: boolean // ★ 部屋がロックされているか
+  isHost: boolean // ★ ロックを切り替えられるのはホストのみ
+  onToggleRoomLock: () => void
 }
 
 export default function CallControlsFooter({
@@ -47,14 +53,18 @@ export default function CallControlsFooter({
   toggleScreenShare,
   handleSpeakerChange,
   leaveRoom,
-  screenSharingPeerId,
+  screenSharingPeerIds,
   myPeerId,
   participants,
-  screenVideoRef,
+  screenVideoRefs,
   roomCode,
   isScreenShareButtonDisabled,
+  onScreenShareBusy,
   switchMicrophone, // ★ マイク切り替え関数を受け取る
   stopLocalAudioAnalysis, // ★ 音声解析停止関数を受け取る
+  isRoomLocked,
+  isHost,
+  onToggleRoomLock,
 }: CallControlsFooterProps) {
   const [showDeviceSettings, setShowDeviceSettings] = useState(false)
   const [isCopied, setIsCopied] = useState(false)
@@ -103,48 +113,62 @@ export default function CallControlsFooter({
     }
   }, [microphones, selectedMicId]) // microphones が読み込まれた後、selectedMicId が空なら実行
 
+  // ★ 画面共有の音量は共有中の全員の画面にまとめて反映する
   const handleScreenVolumeChange = useCallback(
     (volume: number) => {
       setScreenVolume(volume)
-      if (screenVideoRef.current) {
-        screenVideoRef.current.volume = volume
-        // ★ 音量スライダー操作でミュート解除
-        if (volume > 0 && isScreenShareMuted) {
-          setIsScreenShareMuted(false)
-          screenVideoRef.current.muted = false
-        }
-        // ★ 音量が0になったらミュート状態にする (任意)
-        if (volume === 0 && !isScreenShareMuted) {
-          setIsScreenShareMuted(true)
-          screenVideoRef.current.muted = true
-        }
+      const screenVideos = Object.values(screenVideoRefs.current)
+      screenVideos.forEach((video) => {
+        video.volume = volume
+      })
+      // ★ 音量スライダー操作でミュート解除
+      if (volume > 0 && isScreenShareMuted) {
+        setIsScreenShareMuted(false)
+        screenVideos.forEach((video) => {
+          video.muted = false
+        })
+      }
+      // ★ 音量が0になったらミュート状態にする (任意)
+      if (volume === 0 && !isScreenShareMuted) {
+        setIsScreenShareMuted(true)
+        screenVideos.forEach((video) => {
+          video.muted = true
+        })
       }
     },
-    [screenVideoRef, isScreenShareMuted]
+    [screenVideoRefs, isScreenShareMuted]
   )
 
   //  画面共有ミュート切り替え関数
   const toggleScreenShareMute = useCallback(() => {
     const nextMutedState = !isScreenShareMuted
     setIsScreenShareMuted(nextMutedState)
-    if (screenVideoRef.current) {
-      screenVideoRef.current.muted = nextMutedState
-      // ミュート解除時に音量が0だったら少し戻す (任意)
-      if (!nextMutedState && screenVideoRef.current.volume === 0) {
-        const defaultVolume = 0.5 // または以前の音量を記憶しておくなど
-        setScreenVolume(defaultVolume)
-        screenVideoRef.current.volume = defaultVolume
-      }
-    }
-  }, [isScreenShareMuted, screenVideoRef])
+    // ミュート解除時に音量が0だったら少し戻す (任意)
+    const defaultVolume = 0.5 // または以前の音量を記憶しておくなど
+    const shouldRestoreVolume = !nextMutedState && screenVolume === 0
+    if (shouldRestoreVolume) setScreenVolume(defaultVolume)
+    Object.values(screenVideoRefs.current).forEach((video) => {
+      video.muted = nextMutedState
+      if (shouldRestoreVolume) video.volume = defaultVolume
+    })
+  }, [isScreenShareMuted, screenVolume, screenVideoRefs])
 
   const sharingParticipantName = useMemo(() => {
-    if (!screenSharingPeerId) return null
-    if (screenSharingPeerId === myPeerId) return 'あなた'
-    return (
-      participants.find((p) => p.id === screenSharingPeerId)?.name || '参加者'
-    )
-  }, [screenSharingPeerId, myPeerId, participants])
+    if (screenSharingPeerIds.length === 0) return null
+    return screenSharingPeerIds
+      .map((peerId) =>
+        peerId === myPeerId
+          ? 'あなた'
+          : participants.find((p) => p.id === peerId)?.name || '参加者'
+      )
+      .join('、')
+  }, [screenSharingPeerIds, myPeerId, participants])
+
+  // 他の人が共有している (自分の画面だけなら音量は出さない)
+  const isViewingRemoteScreen = useMemo(
+    () => screenSharingPeerIds.some((peerId) => peerId !== myPeerId),
+    [screenSharingPeerIds, myPeerId]
+  )
 
   // コピー処理
   const handleCopyCode = useCallback(() => {
@@ -194,13 +218,13 @@ export default function CallControlsFooter({
   // ★ 画面共有ボタンのクリックハンドラ (Toast 表示ロジック含む)
   const handleScreenShareButtonClick = useCallback(() => {
     if (isScreenShareButtonDisabled) {
-      // 他の人が共有中の場合、Toast を表示
-      toast.warn('他のユーザーが画面共有中です。')
+      // 他の人が共有中の場合、順番待ちに並ぶかを選んでもらう
+      onScreenShareBusy()
     } else {
       // 誰も共有していないか、自分が共有中の場合、元の関数を実行
       toggleScreenShare()
     }
-  }, [isScreenShareButtonDisabled, toggleScreenShare]) // 依存配列
+  }, [isScreenShareButtonDisabled, onScreenShareBusy, toggleScreenShare]) // 依存配列
 
   return (
     <div className={styles.footerContainer}>
@@ -258,6 +282,24 @@ export default function CallControlsFooter({
                 コピー完了！
               </div>
             </div>
+            {/* ★ 部屋のロック (ホスト以外は状態の表示のみ) */}
+            <button
+              onClick={onToggleRoomLock}
+              className={`${styles.lockButton} ${isRoomLocked ? styles.lockedButton : ''}`}
+              disabled={!isHost}
+              title={
+                isHost
+                  ? isRoomLocked
+                    ? 'ロックを解除して入室を受け付ける'
+                    : '部屋をロックして新しい入室を止める'
+                  : isRoomLocked
+                    ? '部屋はロックされています'
+                    : '部屋はロックされていません'
+              }
+              aria-pressed={isRoomLocked}
+            >
+              {isRoomLocked ? <FiLock /> : <FiUnlock />}
+            </button>
           </div>
         )}
       </div>
@@ -303,7 +345,7 @@ export default function CallControlsFooter({
       {/* ★ 右側コントロール (音量スライダー → 共有インジケーター) */}
       <div className={styles.rightControls}>
         {/* 画面共有ボリューム */}
-        {screenSharingPeerId && screenSharingPeerId !== myPeerId && (
+        {isViewingRemoteScreen && (
           <div className={styles.screenVolumeControl}>
             <button
               onClick={toggleScreenShareMute}
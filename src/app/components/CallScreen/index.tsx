@@ -9,19 +9,63 @@ import { FiMicOff, FiMonitor } from 'react-icons/fi'
 import { toast } from 'react-toastify'
 import ParticipantList from '../ParticipantList'
 import ScreenShareDisplay from '../ScreenShareDisplay'
+import JoinRequestList from '../JoinRequestList'
+import ShareQueuePanel from '../ShareQueuePanel'
+import ReloadBanner from '../ReloadBanner'
+import ReconnectBanner from '../ReconnectBanner'
 import { useWebSocket } from '@/app/hooks/useWebSocket'
 import type { Socket } from 'socket.io-client'
+import {
+  loadRoomPasscode,
+  loadRoomCreateOptions,
+  loadAdmissionTicket,
+  clearAdmissionTicket,
+  loadRoomSession,
+  saveRoomSession,
+  clearRoomSession,
+  formatJoinError,
+  VERSION_MISMATCH_MESSAGE,
+} from '@/app/roomAccess'
 
 // 型定義は別ファイル (e.g., src/app/types.ts) に切り出すのが望ましい
 import type {
   Participant,
   RoomStatePayload,
   ScreenShareStatusPayload,
+  ShareQueuePayload,
   UserJoinedPayload,
+  ParticipantUpdatedPayload,
+  HostChangedPayload,
+  JoinRejectedPayload,
+  JoinRequestPayload,
+  JoinRequestCancelledPayload,
+  RoomLockStatusPayload,
+  RoomClosedPayload,
+  MaintenanceNoticePayload,
+  ServerRestartingPayload,
+  SessionReplacedPayload,
+  VersionMismatchData,
   LocalAudioAnalysisRefs,
   DisconnectReason,
 } from '../../type'
 
+const SERVER_RESTARTING_MESSAGE =
+  'サーバーを再起動しています。通話はそのまま続けられ、再起動が終わると自動で部屋に戻ります'
+// サーバーの再起動後、この時間内に戻ってこなかった参加者は一覧から外す
+const REJOIN_AFTER_RESTART_GRACE_MS = 30 * 1000
+
+// 画面共有の順番待ち (offerDeadline は順番が来た人が共有を始める期限)
+type ShareQueueState = {
+  queue: string[]
+  offeredPeerId: string | null
+  offerDeadline: number | null
+}
+const EMPTY_SHARE_QUEUE: ShareQueueState = {
+  queue: [],
+  offeredPeerId: null,
+  offerDeadline: null,
+}
+
 export default function CallScreen() {
   const { room: roomCodeParam } = useParams()
   const roomCode = Array.isArray(roomCodeParam)
@@ -31,8 +75,26 @@ export default function CallScreen() {
 
   // --- State と Ref 定義 ---
   const [myName] = useState(() => localStorage.getItem('my_name') || '')
+  // ★ 部屋ページ (または RoomControls) で保存された合言葉
+  const [passcode] = useState(() =>
+    roomCode ? loadRoomPasscode(roomCode) : ''
+  )
+  // ★ 部屋を作成した場合の設定 (定員など)
+  const [createOptions] = useState(() =>
+    roomCode ? loadRoomCreateOptions(roomCode) : {}
+  )
+  // ★ 待合室でホストに許可された場合の入室チケット
+  const [admissionTicket] = useState(() =>
+    roomCode ? loadAdmissionTicket(roomCode) : ''
+  )
+  // ★ リロード前のセッション (同じ peerId とトークンで猶予中の席に戻る)
+  const [savedSession] = useState(() =>
+    roomCode ? loadRoomSession(roomCode) : null
+  )
+  const sessionTokenRef = useRef<string | undefined>(undefined) // 再接続時の join-room で使う
   const [participants, setParticipants] = useState<Participant[]>([])
   const [isMuted, setIsMuted] = useState(false)
+  const isMutedRef = useRef(false) // join-room で送る (再接続時も今のミュート状態で席に戻る)
   const [microphones, setMicrophones] = useState<MediaDeviceInfo[]>([])
   const [speakers, setSpeakers] = useState<MediaDeviceInfo[]>([])
   const localAudioAnalysis = useRef<LocalAudioAnalysisRefs>({
@@ -47,18 +109,39 @@ export default function CallScreen() {
     [id: string]: number
   }>({})
   const localSpeakingThreshold = 7
-  const [isScreenSharing, setIsScreenSharing] = useState(false)
-  const [screenSharingPeerId, setScreenSharingPeerId] = useState<string | null>(
-    null
+  // ★ 画面共有は複数人が同時に行える (共有を始めた順の Peer ID)
+  const [screenSharingPeerIds, setScreenSharingPeerIds] = useState<string[]>(
+    []
   )
-  const screenVideoRef = useRef<HTMLVideoElement>(null)
-  const [screenShareStream, setScreenShareStream] =
-    useState<MediaStream | null>(null)
-  const localScreenPreviewRef = useRef<HTMLVideoElement>(null)
-  const [selectedSpeakerId, setSelectedSpeakerId] = useState<string>('')
-  const [pendingScreenStreams, setPendingScreenStreams] = useState<{
+  const [maxConcurrentShares, setMaxConcurrentShares] = useState(1) // 同時に共有できる人数 (room-state で届く)
+  const screenVideoRefs = useRef<{ [peerId: string]: HTMLVideoElement }>({})
+  // 共有者ごとの画面共有ストリーム (screen-share-status より先に届くこともある)
+  const [remoteScreenStreams, setRemoteScreenStreams] = useState<{
     [peerId: string]: MediaStream
   }>({})
+  const [selectedSpeakerId, setSelectedSpeakerId] = useState<string>('')
+  const [hostPeerId, setHostPeerId] = useState<string | null>(null)
+  // ★ ホスト用: 待合室で許可待ちのリクエスト
+  const [pendingJoinRequests, setPendingJoinRequests] = useState<
+    JoinRequestPayload[]
+  >([])
+  const [isRoomLocked, setIsRoomLocked] = useState(false) // ★ ホストが部屋をロックしているか
+  // ★ 画面共有の順番待ち
+  const [shareQueue, setShareQueue] =
+    useState<ShareQueueState>(EMPTY_SHARE_QUEUE)
+  const isShareOfferedToMeRef = useRef(false) // 順番が来たお知らせを 1 回だけ出す
+  // ★ サーバーとプロトコルのバージョンが合わない (再読み込みするまで繋がらない)
+  const [isVersionMismatch, setIsVersionMismatch] = useState(false)
+  // ★ サーバーの再起動待ち (部屋に戻るまでバナーを出す)
+  const [isServerRestarting, setIsServerRestarting] = useState(false)
+  const isServerRestartingRef = useRef(false) // room-state の処理で参照する
+  const restoreTokenRef = useRef<string | undefined>(undefined) // 再起動で部屋が消えた場合に作り直してもらうための控え
+  const hasRoomStateRef = useRef(false) // ★ room-state を受け取ったか (既存参加者を呼ぶのはその時だけ)
+  // 再起動後の room-state に居なかった参加者 (戻ってくるまで一覧に残しておく)
+  const awaitingRejoinPeerIdsRef = useRef<Set<string>>(new Set())
+  const rejoinGraceTimerRef = useRef<ReturnType<typeof setTimeout> | null>(
+    null
+  )
 
   // --- コールバック関数用 Ref ---
   // PeerConnection 用
@@ -88,25 +171,92 @@ export default function CallScreen() {
   const onUserLeftRef = useRef<((peerId: string) => void) | undefined>(
     undefined
   ) // ★ 型に | undefined を追加し、引数に undefined
+  const onParticipantUpdatedRef = useRef<
+    ((payload: ParticipantUpdatedPayload) => void) | undefined
+  >(undefined)
   const onScreenShareStatusRef = useRef<
     ((payload: ScreenShareStatusPayload) => void) | undefined
   >(undefined) // ★ 型に | undefined を追加し、引数に undefined
+  const onHostChangedRef = useRef<
+    ((payload: HostChangedPayload) => void) | undefined
+  >(undefined)
+  const onShareQueueUpdatedRef = useRef<
+    ((payload: ShareQueuePayload) => void) | undefined
+  >(undefined)
+  const onShareOfferExpiredRef = useRef<(() => void) | undefined>(undefined)
+  const onKickedRef = useRef<(() => void) | undefined>(undefined)
+  const onSessionReplacedRef = useRef<
+    ((payload: SessionReplacedPayload) => void) | undefined
+  >(undefined)
+  const onJoinRejectedRef = useRef<
+    ((payload: JoinRejectedPayload) => void) | undefined
+  >(undefined)
+  const onJoinRequestRef = useRef<
+    ((payload: JoinRequestPayload) => void) | undefined
+  >(undefined)
+  const onJoinRequestCancelledRef = useRef<
+    ((payload: JoinRequestCancelledPayload) => void) | undefined
+  >(undefined)
+  const onRoomLockStatusRef = useRef<
+    ((payload: RoomLockStatusPayload) => void) | undefined
+  >(undefined)
+  const onRoomClosedRef = useRef<
+    ((payload: RoomClosedPayload) => void) | undefined
+  >(undefined)
+  const onMaintenanceNoticeRef = useRef<
+    ((payload: MaintenanceNoticePayload) => void) | undefined
+  >(undefined)
+  const onServerRestartingRef = useRef<
+    ((payload: ServerRestartingPayload) => void) | undefined
+  >(undefined)
   const onWebSocketConnectErrorRef = useRef<
     ((error: Error) => void) | undefined
   >(undefined) // ★ 型に | undefined を追加し、引数に undefined
+  const onVersionMismatchRef = useRef<
+    ((data: VersionMismatchData) => void) | undefined
+  >(undefined)
   const onWebSocketDisconnectRef = useRef<
     ((reason: Socket.DisconnectReason) => void) | undefined
   >(undefined) // ★ 型に | undefined を追加し、引数に undefined
+  const onWebSocketReconnectRef = useRef<(() => void) | undefined>(undefined)
 
   // --- フック呼び出し (useCallback より前) ---
-  const { socketInstance, emitJoinRoom } = useWebSocket({
+  const {
+    socketInstance,
+    emitJoinRoom,
+    emitKickParticipant,
+    emitAdmitJoinRequest,
+    emitDenyJoinRequest,
+    emitSetRoomLock,
+    emitJoinShareQueue,
+    emitLeaveShareQueue,
+    emitSetMute,
+  } = useWebSocket({
     roomCode,
     onRoomState: (payload) => onRoomStateRef.current?.(payload),
     onUserJoined: (payload) => onUserJoinedRef.current?.(payload),
     onUserLeft: (peerId) => onUserLeftRef.current?.(peerId),
+    onParticipantUpdated: (payload) =>
+      onParticipantUpdatedRef.current?.(payload),
     onScreenShareStatus: (payload) => onScreenShareStatusRef.current?.(payload),
+    onShareQueueUpdated: (payload) => onShareQueueUpdatedRef.current?.(payload),
+    onShareOfferExpired: () => onShareOfferExpiredRef.current?.(),
+    onHostChanged: (payload) => onHostChangedRef.current?.(payload),
+    onKicked: () => onKickedRef.current?.(),
+    onSessionReplaced: (payload) => onSessionReplacedRef.current?.(payload),
+    onJoinRejected: (payload) => onJoinRejectedRef.current?.(payload),
+    onJoinRequest: (payload) => onJoinRequestRef.current?.(payload),
+    onJoinRequestCancelled: (payload) =>
+      onJoinRequestCancelledRef.current?.(payload),
+    onRoomLockStatus: (payload) => onRoomLockStatusRef.current?.(payload),
+    onRoomClosed: (payload) => onRoomClosedRef.current?.(payload),
+    onMaintenanceNotice: (payload) =>
+      onMaintenanceNoticeRef.current?.(payload),
+    onServerRestarting: (payload) => onServerRestartingRef.current?.(payload),
     onConnectError: (error) => onWebSocketConnectErrorRef.current?.(error),
+    onVersionMismatch: (data) => onVersionMismatchRef.current?.(data),
     onDisconnect: (reason) => onWebSocketDisconnectRef.current?.(reason),
+    onReconnect: () => onWebSocketReconnectRef.current?.(),
   })
 
   const {
@@ -115,6 +265,7 @@ export default function CallScreen() {
     screenStream: localScreenStreamFromHook,
     callPeer: callPeerHookFromHook,
     sendMuteStatus: sendMuteStatusHook,
+    sendUserName: sendUserNameHook,
     switchMicrophone: switchMicrophoneHook,
     startScreenShare: startScreenShareHook,
     stopScreenShare: stopScreenShareHook,
@@ -122,6 +273,7 @@ export default function CallScreen() {
     roomCode,
     myName,
     socket: socketInstance,
+    sessionToken: savedSession?.sessionToken,
     onRemoteStream: (...args) => onRemoteStreamRef.current?.(...args),
     onRemoteScreenStreamUpdate: (...args) =>
       onRemoteScreenStreamUpdateRef.current?.(...args),
@@ -179,26 +331,46 @@ export default function CallScreen() {
     [myPeerIdFromHook]
   )
 
+  // 共有をやめた (または退出した) 人の画面共有ストリームを外す
+  const removeRemoteScreenStream = useCallback((peerId: string) => {
+    setRemoteScreenStreams((prev) => {
+      if (!(peerId in prev)) return prev
+      const next = { ...prev }
+      delete next[peerId]
+      return next
+    })
+  }, [])
+
   const removePeer = useCallback(
     (peerId: string) => {
       setParticipants((prev) => prev.filter((p) => p.id !== peerId))
-      if (screenSharingPeerId === peerId) {
+      if (screenSharingPeerIds.includes(peerId)) {
         console.log(
           `[CallScreen] Screen sharing peer ${peerId} left. Stopping screen share view.`
         )
-        setScreenSharingPeerId(null)
-        setScreenShareStream(null)
+        setScreenSharingPeerIds((prev) => prev.filter((id) => id !== peerId))
       }
+      removeRemoteScreenStream(peerId)
     },
-    [screenSharingPeerId]
+    [screenSharingPeerIds, removeRemoteScreenStream]
   )
 
+  // ★ WebRTC の接続が切れただけでは退出扱いにしない (相手が再接続の猶予中かもしれないため)
+  //   参加者の削除はサーバーの user-left に任せ、ここでは音声だけ外す
+  const handlePeerConnectionClosed = useCallback((peerId: string) => {
+    setParticipants((prev) =>
+      prev.map((p) =>
+        p.id === peerId ? { ...p, stream: null, isSpeaking: false } : p
+      )
+    )
+  }, [])
+
   const handleReceiveStream = useCallback(
     (stream: MediaStream, peerId: string) => {
       console.log(
         `★★★ [CallScreen] handleReceiveStream (AUDIO ONLY) called! PeerId: ${peerId}`
       )
-      if (screenSharingPeerId === peerId) {
+      if (screenSharingPeerIds.includes(peerId)) {
         console.warn(
           `[CallScreen] Received audio stream from the screen sharing peer ${peerId}. Ignoring.`
         )
@@ -207,7 +379,7 @@ export default function CallScreen() {
       console.log(`CallScreen: Treating stream from ${peerId} as audio.`)
       upsertParticipant({ id: peerId, stream }) // upsertParticipant を使用
     },
-    [screenSharingPeerId, upsertParticipant] // screenSharingPeerId と upsertParticipant に依存
+    [screenSharingPeerIds, upsertParticipant] // screenSharingPeerIds と upsertParticipant に依存
   )
 
   const handleReceiveScreenStream = useCallback(
@@ -215,19 +387,10 @@ export default function CallScreen() {
       console.log(
         `★★★ [CallScreen] handleReceiveScreenStream called! PeerId: ${peerId}, Stream ID: ${stream.id}`
       )
-      if (screenSharingPeerId === peerId) {
-        console.log(
-          `[CallScreen] Setting received screen stream from ${peerId}`
-        )
-        setScreenShareStream(stream)
-      } else {
-        console.warn(
-          `[CallScreen] Received screen stream from ${peerId}, but current sharer is ${screenSharingPeerId}. Ignoring or pending.`
-        )
-        // setPendingScreenStreams((prev) => ({ ...prev, [peerId]: stream }));
-      }
+      // 共有者ごとに保持する (表示するのは screenSharingPeerIds に含まれる人だけ)
+      setRemoteScreenStreams((prev) => ({ ...prev, [peerId]: stream }))
     },
-    [screenSharingPeerId] // screenSharingPeerId に依存
+    []
   )
 
   // WebSocket から呼ばれるコールバック
@@ -237,9 +400,33 @@ export default function CallScreen() {
         '★★★ [CallScreen] Received room-state event payload:',
         payload
       )
-      const { participants: serverParticipants, currentSharerId } = payload
+      const {
+        participants: serverParticipants,
+        participantStates,
+        currentSharerIds,
+        maxConcurrentShares: currentMaxConcurrentShares,
+        hostPeerId: currentHostPeerId,
+        isLocked,
+        sessionToken,
+        name: assignedName,
+      } = payload
       const currentMyPeerId = myPeerIdFromHook
 
+      // ★ リロードしても席に戻れるよう、セッションを保存
+      sessionTokenRef.current = sessionToken
+      if (roomCode && currentMyPeerId) {
+        saveRoomSession(roomCode, { peerId: currentMyPeerId, sessionToken })
+      }
+
+      // ★ サーバーの再起動後に部屋に戻った
+      //   部屋が作り直された場合 (ROOM_STORE=memory) は他の参加者がまだ戻っていないので、
+      //   通話の繋がっている相手を一覧から消さずに待つ
+      const isRejoiningAfterRestart = isServerRestartingRef.current
+      isServerRestartingRef.current = false
+      restoreTokenRef.current = undefined // 部屋に戻れたので、控えはもう使わない
+      hasRoomStateRef.current = true
+      setIsServerRestarting(false)
+
       // ↓↓↓ setParticipants をコールバック形式で呼び出すように変更 ↓↓↓
       setParticipants((prevParticipants) => {
         // ★ prevParticipants を受け取る
@@ -249,7 +436,11 @@ export default function CallScreen() {
           ([peerId, name]): Participant => ({
             id: peerId,
             name,
-            isMuted: false,
+            // ★ 後から入った場合も、他の人のミュート状態はサーバーが持っているものを使う
+            isMuted:
+              peerId === currentMyPeerId
+                ? isMuted
+                : (participantStates[peerId]?.isMuted ?? false),
             isSelf: peerId === currentMyPeerId,
             // 既存のストリームを維持 (prevParticipants を参照)
             stream:
@@ -258,13 +449,26 @@ export default function CallScreen() {
           })
         )
 
+        if (isRejoiningAfterRestart) {
+          const awaiting = prevParticipants.filter(
+            (p) =>
+              !p.isSelf &&
+              p.id !== currentMyPeerId &&
+              !(p.id in serverParticipants)
+          )
+          awaitingRejoinPeerIdsRef.current = new Set(
+            awaiting.map((p) => p.id)
+          )
+          updatedParticipants.push(...awaiting)
+        }
+
         if (
           currentMyPeerId &&
           !updatedParticipants.some((p) => p.id === currentMyPeerId)
         ) {
           updatedParticipants.push({
             id: currentMyPeerId,
-            name: myName,
+            name: assignedName,
             isMuted: isMuted,
             isSelf: true,
             stream: localStream,
@@ -275,29 +479,75 @@ export default function CallScreen() {
       })
       // ↑↑↑ setParticipants をコールバック形式で呼び出すように変更 ↑↑↑
 
-      setScreenSharingPeerId(currentSharerId)
+      setScreenSharingPeerIds(currentSharerIds)
+      setMaxConcurrentShares(currentMaxConcurrentShares)
+      setHostPeerId(currentHostPeerId)
+      setIsRoomLocked(isLocked)
+
+      // ★ 同じ名前の人がいると番号が付くので、通話相手にもサーバーが割り当てた名前を伝え直す
+      sendUserNameHook(assignedName)
+
+      // 猶予時間が過ぎても戻らなかった参加者は、退出したものとして外す
+      if (isRejoiningAfterRestart) {
+        if (rejoinGraceTimerRef.current) {
+          clearTimeout(rejoinGraceTimerRef.current)
+        }
+        rejoinGraceTimerRef.current = setTimeout(() => {
+          rejoinGraceTimerRef.current = null
+          const missing = awaitingRejoinPeerIdsRef.current
+          awaitingRejoinPeerIdsRef.current = new Set()
+          setParticipants((prev) => prev.filter((p) => !missing.has(p.id)))
+        }, REJOIN_AFTER_RESTART_GRACE_MS)
+      }
+
+      // ★ 共有中にリロードして席に戻った場合、画面はもう取り込めていないので共有枠を解放する
+      if (
+        currentMyPeerId &&
+        currentSharerIds.includes(currentMyPeerId) &&
+        !localScreenStreamFromHook
+      ) {
+        socketInstance?.emit('notify-stop-share')
+      }
     },
     // ↓↓↓ 依存配列から participants を削除 ↓↓↓
-    [myPeerIdFromHook, myName, isMuted, localStream, localAudioAnalysis] // ★ participants を削除
+    [
+      myPeerIdFromHook,
+      isMuted,
+      localStream,
+      localAudioAnalysis,
+      roomCode,
+      localScreenStreamFromHook,
+      socketInstance,
+      sendUserNameHook,
+    ] // ★ participants を削除
   )
 
   const handleUserJoined = useCallback(
     (payload: UserJoinedPayload) => {
-      const { peerId, name } = payload
+      const { peerId, name, hostPeerId: currentHostPeerId } = payload
       const currentMyPeerId = myPeerIdFromHook
+      setHostPeerId(currentHostPeerId)
       if (peerId === currentMyPeerId) return
       console.log(
         `★★★ [CallScreen] Received user-joined event via WebSocket: ${name} (${peerId})`
       )
-      upsertParticipant({ id: peerId, name, isMuted: false, isSelf: false })
-      callPeerHookFromHook(peerId).catch((error) =>
-        console.error(
-          `[CallScreen user-joined] Failed to call new peer ${peerId}:`,
-          error
-        )
-      )
+      awaitingRejoinPeerIdsRef.current.delete(peerId) // 再起動後に戻ってきた
+      // ミュート状態は participant-updated で届く (席に戻った人の状態を上書きしない)
+      upsertParticipant({ id: peerId, name, isSelf: false })
+      // 通話は新しく入った人からかかってくる (room-state を受けて既存参加者を呼ぶ Effect)
+    },
+    [myPeerIdFromHook, upsertParticipant]
+  )
+
+  // ★ 参加者のミュート・画面共有の状態が変わった (サーバーが持つ状態)
+  //   画面共有の一覧は screen-share-status で更新するので、ここではミュートだけ反映する
+  const handleParticipantUpdated = useCallback(
+    (payload: ParticipantUpdatedPayload) => {
+      const { peerId, isMuted: isPeerMuted } = payload
+      if (peerId === myPeerIdFromHook) return // 自分の状態は手元で切り替え済み
+      upsertParticipant({ id: peerId, isMuted: isPeerMuted })
     },
-    [myPeerIdFromHook, upsertParticipant, callPeerHookFromHook]
+    [myPeerIdFromHook, upsertParticipant]
   )
 
   const handleUserLeft = useCallback(
@@ -316,22 +566,221 @@ export default function CallScreen() {
         '★★★ [CallScreen] Received screen-share-status event via WebSocket:',
         payload
       )
-      const { peerId, isSharing, sharerPeerId: currentSharerId } = payload
-      const currentMyPeerId = myPeerIdFromHook
+      const { peerId, isSharing, sharerPeerIds } = payload
 
-      setScreenSharingPeerId(currentSharerId)
-      setIsScreenSharing(currentSharerId === currentMyPeerId)
+      setScreenSharingPeerIds(sharerPeerIds)
 
-      if (!isSharing && screenShareStream && screenSharingPeerId === peerId) {
+      if (!isSharing) {
         console.log(
           `[CallScreen screen-share-status] Clearing remote screen stream because ${peerId} stopped sharing.`
         )
-        setScreenShareStream(null)
+        removeRemoteScreenStream(peerId)
+      }
+    },
+    [removeRemoteScreenStream]
+  )
+
+  const handleHostChanged = useCallback(
+    (payload: HostChangedPayload) => {
+      console.log(
+        '★★★ [CallScreen] Received host-changed event via WebSocket:',
+        payload
+      )
+      setHostPeerId(payload.hostPeerId)
+      if (payload.hostPeerId && payload.hostPeerId === myPeerIdFromHook) {
+        toast.info('あなたがホストになりました。')
+      }
+    },
+    [myPeerIdFromHook]
+  )
+
+  // ★ 画面共有の順番待ちが変わった (順番が来たら知らせる)
+  const handleShareQueueUpdated = useCallback(
+    (payload: ShareQueuePayload) => {
+      setShareQueue({
+        queue: payload.queue,
+        offeredPeerId: payload.offeredPeerId,
+        offerDeadline:
+          payload.offerExpiresInMs === null
+            ? null
+            : Date.now() + payload.offerExpiresInMs,
+      })
+      const isOfferedToMe =
+        !!myPeerIdFromHook && payload.offeredPeerId === myPeerIdFromHook
+      if (isOfferedToMe && !isShareOfferedToMeRef.current) {
+        toast.info('画面共有の順番が来ました。')
       }
+      isShareOfferedToMeRef.current = isOfferedToMe
+    },
+    [myPeerIdFromHook]
+  )
+
+  const handleShareOfferExpired = useCallback(() => {
+    toast.info('時間内に画面共有を始めなかったため、順番を見送りました。')
+  }, [])
+
+  const joinShareQueue = useCallback(async () => {
+    const response = await emitJoinShareQueue()
+    if (response.success) {
+      toast.info(`画面共有の順番待ちに並びました (${response.position} 番目)`)
+    } else {
+      toast.error(response.message || '順番待ちに並べませんでした。')
+    }
+  }, [emitJoinShareQueue])
+
+  const leaveShareQueue = useCallback(async () => {
+    const response = await emitLeaveShareQueue()
+    if (!response.success) {
+      toast.error(response.message || '順番待ちをやめられませんでした。')
+    }
+  }, [emitLeaveShareQueue])
+
+  // ★ 共有枠が埋まっている (同時に共有できる人数に達しているか、空いた枠を順番待ちの人に回している)
+  const isShareSlotFull = useMemo(() => {
+    const isOfferedToOther =
+      shareQueue.offeredPeerId !== null &&
+      shareQueue.offeredPeerId !== myPeerIdFromHook
+    return (
+      screenSharingPeerIds.length + (isOfferedToOther ? 1 : 0) >=
+      maxConcurrentShares
+    )
+  }, [screenSharingPeerIds, shareQueue, myPeerIdFromHook, maxConcurrentShares])
+
+  // ★ 共有枠が埋まっていれば、順番待ちに並ぶかを選んでもらう
+  const promptShareQueue = useCallback(() => {
+    const position = shareQueue.queue.indexOf(myPeerIdFromHook) + 1
+    if (position > 0) {
+      toast.info(`画面共有の順番待ち中です (${position} 番目)`)
+      return
+    }
+    toast.warn(({ closeToast }) => (
+      <div className={styles.toastWithAction}>
+        <span>同時に画面共有できる人数に達しています。</span>
+        <button
+          className={styles.toastActionButton}
+          onClick={() => {
+            closeToast()
+            joinShareQueue()
+          }}
+        >
+          順番待ちに並ぶ
+        </button>
+      </div>
+    ))
+  }, [shareQueue, myPeerIdFromHook, joinShareQueue])
+
+  const handleKicked = useCallback(() => {
+    console.log('[CallScreen] Kicked from the room by the host.')
+    toast.error('ホストによって退出させられました。')
+    if (roomCode) clearRoomSession(roomCode)
+    router.push('/')
+  }, [router, roomCode])
+
+  // ★ 別のタブや端末で同じ席に入り直した場合は、そちらに通話を任せてこの画面を閉じる
+  //   (このタブのセッションだけを消す。sessionStorage はタブごとなので新しい方には影響しない)
+  const handleSessionReplaced = useCallback(
+    (payload: SessionReplacedPayload) => {
+      console.log(
+        '[CallScreen] Session replaced by another connection:',
+        payload
+      )
+      toast.info(
+        '別のタブまたは端末でこの部屋に参加したため、こちらの接続を終了しました。'
+      )
+      if (roomCode) clearRoomSession(roomCode)
+      router.push('/')
+    },
+    [router, roomCode]
+  )
+
+  // ★ 運用者が部屋を閉じた場合は、席にも戻れないのでセッションを消して退出する
+  const handleRoomClosed = useCallback(
+    (payload: RoomClosedPayload) => {
+      console.log('[CallScreen] Room closed by the operator:', payload)
+      toast.info('この部屋は運営によって終了されました。')
+      if (roomCode) clearRoomSession(roomCode)
+      router.push('/')
+    },
+    [router, roomCode]
+  )
+
+  // ★ メンテナンスのお知らせは、閉じるまで表示したままにする
+  const handleMaintenanceNotice = useCallback(
+    (payload: MaintenanceNoticePayload) => {
+      toast.warn(`運営からのお知らせ: ${payload.message}`, {
+        autoClose: false,
+      })
+    },
+    []
+  )
+
+  // ★ サーバーの再起動中は、部屋に戻るまでバナーを出す (再接続は useWebSocket が行う)
+  const handleServerRestarting = useCallback(
+    (payload: ServerRestartingPayload) => {
+      console.log('[CallScreen] Server is restarting:', payload)
+      isServerRestartingRef.current = true
+      restoreTokenRef.current = payload.restoreToken
+      setIsServerRestarting(true)
+    },
+    []
+  )
+
+  // ★ 定員オーバーなどで入室を拒否された場合は、理由を表示してトップに戻る
+  const handleJoinRejected = useCallback(
+    (payload: JoinRejectedPayload) => {
+      console.warn('[CallScreen] Join rejected by server:', payload)
+      toast.error(
+        formatJoinError(payload.code, payload.retryAfterMs) ??
+          '部屋に入れませんでした。'
+      )
+      router.push('/')
+    },
+    [router]
+  )
+
+  // ★ ホスト用: 待合室からのリクエストを一覧に追加 (同じリクエストの再通知は無視)
+  const handleJoinRequest = useCallback((payload: JoinRequestPayload) => {
+    console.log('[CallScreen] Join request received:', payload)
+    setPendingJoinRequests((prev) =>
+      prev.some((request) => request.requestId === payload.requestId)
+        ? prev
+        : [...prev, payload]
+    )
+  }, [])
+
+  const handleJoinRequestCancelled = useCallback(
+    (payload: JoinRequestCancelledPayload) => {
+      setPendingJoinRequests((prev) =>
+        prev.filter((request) => request.requestId !== payload.requestId)
+      )
     },
-    [myPeerIdFromHook, screenShareStream, screenSharingPeerId]
+    []
+  )
+
+  const handleRoomLockStatus = useCallback(
+    (payload: RoomLockStatusPayload) => {
+      setIsRoomLocked(payload.isLocked)
+      toast.info(
+        payload.isLocked
+          ? '部屋がロックされました。'
+          : '部屋のロックが解除されました。'
+      )
+    },
+    []
   )
 
+  // ★ 一時的な切断から自動で再接続したら、トークン付きで join-room を送り直して席に戻る
+  const handleWebSocketReconnect = useCallback(() => {
+    if (!myPeerIdFromHook || !myName) return
+    console.log('[CallScreen] WebSocket reconnected. Reclaiming seat...')
+    emitJoinRoom(myPeerIdFromHook, myName, {
+      passcode,
+      sessionToken: sessionTokenRef.current,
+      restoreToken: restoreTokenRef.current,
+      isMuted: isMutedRef.current,
+    })
+  }, [myPeerIdFromHook, myName, passcode, emitJoinRoom])
+
   const handleWebSocketConnectError = useCallback(
     (error: Error) => {
       toast.error('サーバーとの接続に失敗しました。')
@@ -342,15 +791,27 @@ export default function CallScreen() {
     ]
   )
 
+  const handleVersionMismatch = useCallback((data: VersionMismatchData) => {
+    console.warn('[CallScreen] Protocol version mismatch:', data)
+    setIsVersionMismatch(true)
+  }, [])
+
   const handleWebSocketDisconnect = useCallback(
     (reason: Socket.DisconnectReason) => {
       // toast.info('サーバーから切断されました。')
       console.log(`[CallScreen] WebSocket disconnected: ${reason}`)
 
       setParticipants([])
-      setScreenSharingPeerId(null)
-      setScreenShareStream(null)
-      if (screenVideoRef.current) screenVideoRef.current.srcObject = null
+      setScreenSharingPeerIds([])
+      setRemoteScreenStreams({})
+      setHostPeerId(null)
+      setPendingJoinRequests([])
+      setIsRoomLocked(false)
+      setShareQueue(EMPTY_SHARE_QUEUE)
+      isShareOfferedToMeRef.current = false
+      Object.values(screenVideoRefs.current).forEach((video) => {
+        video.srcObject = null
+      })
     },
     []
   )
@@ -544,9 +1005,51 @@ export default function CallScreen() {
     []
   )
 
+  // ★ ホスト用: 参加者をキック
+  const kickParticipant = useCallback(
+    async (peerId: string) => {
+      const response = await emitKickParticipant(peerId)
+      if (!response.success) {
+        console.warn('[CallScreen] Kick failed:', response.message)
+        toast.error('参加者を退出させられませんでした。')
+      }
+    },
+    [emitKickParticipant]
+  )
+
+  // ★ ホスト用: 待合室のリクエストを許可/拒否
+  const resolveJoinRequest = useCallback(
+    async (requestId: string, admit: boolean) => {
+      setPendingJoinRequests((prev) =>
+        prev.filter((request) => request.requestId !== requestId)
+      )
+      const response = admit
+        ? await emitAdmitJoinRequest(requestId)
+        : await emitDenyJoinRequest(requestId)
+      if (!response.success) {
+        console.warn(
+          '[CallScreen] Join request action failed:',
+          response.message
+        )
+        toast.error('入室リクエストを処理できませんでした。')
+      }
+    },
+    [emitAdmitJoinRequest, emitDenyJoinRequest]
+  )
+
+  // ★ ホスト用: 部屋のロック/解除を切り替え
+  const toggleRoomLock = useCallback(async () => {
+    const response = await emitSetRoomLock(!isRoomLocked)
+    if (!response.success) {
+      console.warn('[CallScreen] Room lock failed:', response.message)
+      toast.error('部屋のロック状態を変更できませんでした。')
+    }
+  }, [emitSetRoomLock, isRoomLocked])
+
   const leaveRoom = useCallback(() => {
+    if (roomCode) clearRoomSession(roomCode) // 自分から退出したら席には戻らない
     router.push('/')
-  }, [router])
+  }, [router, roomCode])
 
   const toggleMic = useCallback(() => {
     if (!localStream) return
@@ -556,16 +1059,24 @@ export default function CallScreen() {
       audioTrack.enabled = newEnabledState
       const newMuteState = !newEnabledState
       setIsMuted(newMuteState)
+      isMutedRef.current = newMuteState
       if (myPeerIdFromHook) {
         upsertParticipant({ id: myPeerIdFromHook, isMuted: newMuteState })
       }
       sendMuteStatusHook(newMuteState)
+      emitSetMute(newMuteState) // 他の参加者への表示はサーバー経由で伝わる
     }
-  }, [localStream, sendMuteStatusHook, myPeerIdFromHook, upsertParticipant])
+  }, [
+    localStream,
+    sendMuteStatusHook,
+    emitSetMute,
+    myPeerIdFromHook,
+    upsertParticipant,
+  ])
 
   const toggleScreenShare = useCallback(async () => {
     const currentlySharing =
-      screenSharingPeerId === myPeerIdFromHook && myPeerIdFromHook !== ''
+      myPeerIdFromHook !== '' && screenSharingPeerIds.includes(myPeerIdFromHook)
 
     if (currentlySharing) {
       try {
@@ -577,8 +1088,8 @@ export default function CallScreen() {
         )
       }
     } else {
-      if (screenSharingPeerId !== null) {
-        toast.warn('現在他のユーザーが画面共有中です。')
+      if (isShareSlotFull) {
+        promptShareQueue()
         return
       }
       try {
@@ -591,8 +1102,10 @@ export default function CallScreen() {
       }
     }
   }, [
-    screenSharingPeerId,
+    screenSharingPeerIds,
     myPeerIdFromHook,
+    isShareSlotFull,
+    promptShareQueue,
     startScreenShareHook,
     stopScreenShareHook,
   ])
@@ -610,8 +1123,8 @@ export default function CallScreen() {
     onParticipantUpdateRef.current = upsertParticipant
   }, [upsertParticipant])
   useEffect(() => {
-    onParticipantRemoveRef.current = removePeer
-  }, [removePeer])
+    onParticipantRemoveRef.current = handlePeerConnectionClosed
+  }, [handlePeerConnectionClosed])
   useEffect(() => {
     callPeerHookRef.current = callPeerHookFromHook
   }, [callPeerHookFromHook])
@@ -624,22 +1137,89 @@ export default function CallScreen() {
   useEffect(() => {
     onUserLeftRef.current = handleUserLeft
   }, [handleUserLeft])
+  useEffect(() => {
+    onParticipantUpdatedRef.current = handleParticipantUpdated
+  }, [handleParticipantUpdated])
   useEffect(() => {
     onScreenShareStatusRef.current = handleScreenShareStatus
   }, [handleScreenShareStatus])
+  useEffect(() => {
+    onShareQueueUpdatedRef.current = handleShareQueueUpdated
+  }, [handleShareQueueUpdated])
+  useEffect(() => {
+    onShareOfferExpiredRef.current = handleShareOfferExpired
+  }, [handleShareOfferExpired])
+  useEffect(() => {
+    onHostChangedRef.current = handleHostChanged
+  }, [handleHostChanged])
+  useEffect(() => {
+    onKickedRef.current = handleKicked
+  }, [handleKicked])
+  useEffect(() => {
+    onSessionReplacedRef.current = handleSessionReplaced
+  }, [handleSessionReplaced])
+  useEffect(() => {
+    onJoinRejectedRef.current = handleJoinRejected
+  }, [handleJoinRejected])
+  useEffect(() => {
+    onJoinRequestRef.current = handleJoinRequest
+  }, [handleJoinRequest])
+  useEffect(() => {
+    onJoinRequestCancelledRef.current = handleJoinRequestCancelled
+  }, [handleJoinRequestCancelled])
+  useEffect(() => {
+    onRoomLockStatusRef.current = handleRoomLockStatus
+  }, [handleRoomLockStatus])
+  useEffect(() => {
+    onRoomClosedRef.current = handleRoomClosed
+  }, [handleRoomClosed])
+  useEffect(() => {
+    onMaintenanceNoticeRef.current = handleMaintenanceNotice
+  }, [handleMaintenanceNotice])
+  useEffect(() => {
+    onServerRestartingRef.current = handleServerRestarting
+  }, [handleServerRestarting])
   useEffect(() => {
     onWebSocketConnectErrorRef.current = handleWebSocketConnectError
   }, [handleWebSocketConnectError])
+  useEffect(() => {
+    onVersionMismatchRef.current = handleVersionMismatch
+  }, [handleVersionMismatch])
   useEffect(() => {
     onWebSocketDisconnectRef.current = handleWebSocketDisconnect
   }, [handleWebSocketDisconnect])
+  useEffect(() => {
+    onWebSocketReconnectRef.current = handleWebSocketReconnect
+  }, [handleWebSocketReconnect])
 
   // join-room を emit する Effect
   useEffect(() => {
     if (myPeerIdFromHook && myName) {
-      emitJoinRoom(myPeerIdFromHook, myName)
+      emitJoinRoom(myPeerIdFromHook, myName, {
+        passcode,
+        maxParticipants: createOptions.maxParticipants,
+        approvalRequired: createOptions.approvalRequired,
+        admissionTicket,
+        // リロード前と同じ peerId で Peer を開けた場合のみ、席を取り戻せる
+        sessionToken:
+          savedSession?.peerId === myPeerIdFromHook
+            ? savedSession.sessionToken
+            : undefined,
+        isMuted: isMutedRef.current,
+      })
+      // チケットは一度しか使えないので、送信したら破棄する
+      if (roomCode) clearAdmissionTicket(roomCode)
     }
-  }, [myPeerIdFromHook, myName, emitJoinRoom])
+  }, [
+    myPeerIdFromHook,
+    myName,
+    passcode,
+    createOptions,
+    admissionTicket,
+    savedSession,
+    roomCode,
+    emitJoinRoom,
+  ])
 
   // localStream 変更時に音声解析を開始/停止
   useEffect(() => {
@@ -650,10 +1230,17 @@ export default function CallScreen() {
     }
   }, [localStream, startLocalAudioAnalysis, stopLocalAudioAnalysis])
 
-  // 既存参加者を呼ぶ Effect
+  // 既存参加者を呼ぶ Effect (通話をかけるのは新しく入った側だけ)
+  //   席に戻った場合は user-joined が送られないので、ここで繋ぎ直す
+  //   最初の room-state の時点の参加者だけを呼ぶ (一人で部屋を作った場合も、後から入った人は呼ばない)
   const calledExistingPeersRef = useRef(false)
   useEffect(() => {
-    if (myPeerIdFromHook && !calledExistingPeersRef.current) {
+    if (
+      myPeerIdFromHook &&
+      hasRoomStateRef.current &&
+      !calledExistingPeersRef.current
+    ) {
+      calledExistingPeersRef.current = true
       const otherParticipants = participants.filter(
         (p) => !p.isSelf && p.id !== myPeerIdFromHook
       )
@@ -672,22 +1259,25 @@ export default function CallScreen() {
               )
             )
         })
-        calledExistingPeersRef.current = true
       }
     }
   }, [myPeerIdFromHook, participants])
 
   // アンマウント時のクリーンアップ
   useEffect(() => {
-    const screenVideoElement = screenVideoRef.current
+    const screenVideoElements = screenVideoRefs.current
     return () => {
       console.log(
         'CallScreen: Component unmounting, cleaning up remaining resources.'
       )
-      if (screenVideoElement && screenVideoElement.srcObject) {
+      Object.values(screenVideoElements).forEach((screenVideoElement) => {
+        if (!screenVideoElement.srcObject) return
         const stream = screenVideoElement.srcObject as MediaStream
         stream?.getTracks().forEach((track) => track.stop())
         screenVideoElement.srcObject = null
+      })
+      if (rejoinGraceTimerRef.current) {
+        clearTimeout(rejoinGraceTimerRef.current)
       }
       console.log('CallScreen: Cleanup on unmount finished.')
     }
@@ -713,104 +1303,77 @@ export default function CallScreen() {
     getDevices()
   }, [getDevices])
 
-  // 画面共有ストリーム関連 Effect
-  useEffect(() => {
-    console.log(
-      `[CallScreen Activate Effect] Running. Sharer: ${screenSharingPeerId}, Pending keys: ${Object.keys(pendingScreenStreams)}`
-    )
-    if (screenSharingPeerId) {
-      const pendingStream = pendingScreenStreams[screenSharingPeerId]
-      if (pendingStream) {
-        if (screenShareStream !== pendingStream) {
-          console.log(
-            `[CallScreen Activate Effect] Activating pending stream for ${screenSharingPeerId}.`
-          )
-          setScreenShareStream(pendingStream)
-          setPendingScreenStreams((prev) => {
-            const newState = { ...prev }
-            delete newState[screenSharingPeerId]
-            return newState
-          })
-        }
-      }
-    } else {
-      if (screenShareStream) {
-        console.log(
-          '[CallScreen Activate Effect] No sharer, clearing active screen stream.'
-        )
-        setScreenShareStream(null)
-      }
-      if (Object.keys(pendingScreenStreams).length > 0) {
-        console.warn(
-          '[CallScreen Activate Effect] No sharer, but pending streams exist. Cleaning up pending streams.'
-        )
-        setPendingScreenStreams((prev) => {
-          Object.values(prev).forEach((stream) =>
-            stream.getTracks().forEach((track) => track.stop())
-          )
-          return {}
-        })
-      }
-    }
-  }, [screenSharingPeerId, pendingScreenStreams, screenShareStream])
-
-  useEffect(() => {
-    if (screenVideoRef.current && screenShareStream) {
-      screenVideoRef.current.srcObject = screenShareStream
-      screenVideoRef.current.muted = false
-      screenVideoRef.current
-        .play()
-        .catch((e) => console.error('Screen share video play failed:', e))
-    } else if (screenVideoRef.current) {
-      screenVideoRef.current.srcObject = null
-    }
-  }, [screenShareStream])
-
-  useEffect(() => {
-    if (
-      localScreenPreviewRef.current &&
-      isScreenSharing &&
-      localScreenStreamFromHook
-    ) {
-      localScreenPreviewRef.current.srcObject = localScreenStreamFromHook
-      localScreenPreviewRef.current.muted = true
-      localScreenPreviewRef.current
-        .play()
-        .catch((e) => console.error('Local screen preview play failed:', e))
-    } else if (localScreenPreviewRef.current) {
-      localScreenPreviewRef.current.srcObject = null
-    }
-  }, [isScreenSharing, localScreenStreamFromHook])
-
   // --- useMemo ---
   const isScreenSharingMyself = useMemo(
-    () => screenSharingPeerId === myPeerIdFromHook && myPeerIdFromHook !== '',
-    [screenSharingPeerId, myPeerIdFromHook]
+    () =>
+      myPeerIdFromHook !== '' &&
+      screenSharingPeerIds.includes(myPeerIdFromHook),
+    [screenSharingPeerIds, myPeerIdFromHook]
   )
   const isScreenShareButtonDisabled = useMemo(
-    () => screenSharingPeerId !== null && !isScreenSharingMyself,
-    [screenSharingPeerId, isScreenSharingMyself]
+    () => isShareSlotFull && !isScreenSharingMyself,
+    [isShareSlotFull, isScreenSharingMyself]
+  )
+  // 画面共有中の人 (名前は参加者一覧から引く)
+  const screenSharers = useMemo(
+    () =>
+      screenSharingPeerIds.map((peerId) => ({
+        peerId,
+        name: participants.find((p) => p.id === peerId)?.name || '参加者',
+      })),
+    [screenSharingPeerIds, participants]
+  )
+  // 順番待ちの並び (名前は参加者一覧から引く)
+  const shareQueueEntries = useMemo(
+    () =>
+      shareQueue.queue.map((peerId) => ({
+        peerId,
+        name: participants.find((p) => p.id === peerId)?.name || '参加者',
+      })),
+    [shareQueue, participants]
   )
 
   // --- JSX レンダリング ---
   return (
     <div className={styles.container}>
+      {isVersionMismatch && (
+        <ReloadBanner message={VERSION_MISMATCH_MESSAGE} />
+      )}
+      {isServerRestarting && !isVersionMismatch && (
+        <ReconnectBanner message={SERVER_RESTARTING_MESSAGE} />
+      )}
       <div className={styles.participantListContainer}>
+        {hostPeerId !== null && hostPeerId === myPeerIdFromHook && (
+          <JoinRequestList
+            requests={pendingJoinRequests}
+            onAdmit={(requestId) => resolveJoinRequest(requestId, true)}
+            onDeny={(requestId) => resolveJoinRequest(requestId, false)}
+          />
+        )}
+        <ShareQueuePanel
+          entries={shareQueueEntries}
+          myPeerId={myPeerIdFromHook}
+          offeredPeerId={shareQueue.offeredPeerId}
+          offerDeadline={shareQueue.offerDeadline}
+          onAccept={toggleScreenShare}
+          onLeave={leaveShareQueue}
+        />
         <ParticipantList
           participants={participants}
           myPeerId={myPeerIdFromHook}
-          screenSharingPeerId={screenSharingPeerId}
+          screenSharingPeerIds={screenSharingPeerIds}
+          hostPeerId={hostPeerId}
           selectedSpeakerId={selectedSpeakerId}
+          onKickParticipant={kickParticipant}
         />
       </div>
       <div className={styles.screenShareArea}>
         <ScreenShareDisplay
-          screenSharingPeerId={screenSharingPeerId}
+          sharers={screenSharers}
           myPeerId={myPeerIdFromHook}
           localScreenStream={localScreenStreamFromHook}
-          remoteScreenStream={screenShareStream}
-          screenVideoRef={screenVideoRef}
-          localScreenPreviewRef={localScreenPreviewRef}
+          remoteScreenStreams={remoteScreenStreams}
+          screenVideoRefs={screenVideoRefs}
         />
       </div>
       <CallControlsFooter
@@ -826,12 +1389,16 @@ export default function CallScreen() {
         switchMicrophone={switchMicrophoneHook} // ★ マイク切り替え関数を渡す
         stopLocalAudioAnalysis={stopLocalAudioAnalysis} // ★ 音声解析停止関数を渡す
         leaveRoom={leaveRoom}
-        screenSharingPeerId={screenSharingPeerId}
+        screenSharingPeerIds={screenSharingPeerIds}
         myPeerId={myPeerIdFromHook}
         participants={participants}
         roomCode={roomCode}
-        screenVideoRef={screenVideoRef}
+        screenVideoRefs={screenVideoRefs}
         isScreenShareButtonDisabled={isScreenShareButtonDisabled}
+        onScreenShareBusy={promptShareQueue}
+        isRoomLocked={isRoomLocked}
+        isHost={hostPeerId !== null && hostPeerId === myPeerIdFromHook}
+        onToggleRoomLock={toggleRoomLock}
       />
       {/* <div id='audio-container' style={{ display: 'none' }}></div> */}
     </div>
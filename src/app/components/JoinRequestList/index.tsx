@@ -0,0 +1,50 @@
+// src/app/components/JoinRequestList/index.tsx
+import { FiCheck, FiX } from 'react-icons/fi'
+import type { JoinRequestPayload } from '@/app/type'
+import styles from './styles.module.css'
+
+type JoinRequestListProps = {
+  requests: JoinRequestPayload[]
+  onAdmit: (requestId: string) => void
+  onDeny: (requestId: string) => void
+}
+
+// ★ ホスト用: 待合室で許可を待っている人の一覧
+export default function JoinRequestList({
+  requests,
+  onAdmit,
+  onDeny,
+}: JoinRequestListProps) {
+  if (requests.length === 0) return null
+
+  return (
+    <div className={styles.joinRequestList}>
+      <p className={styles.heading}>入室リクエスト ({requests.length})</p>
+      <ul className={styles.list}>
+        {requests.map((request) => (
+          <li key={request.requestId} className={styles.requestItem}>
+            <span className={styles.name} title={request.name}>
+              {request.name}
+            </span>
+            <button
+              className={`${styles.actionButton} ${styles.admitButton}`}
+              onClick={() => onAdmit(request.requestId)}
+              title='許可'
+              aria-label={`${request.name} の入室を許可`}
+            >
+              <FiCheck />
+            </button>
+            <button
+              className={`${styles.actionButton} ${styles.denyButton}`}
+              onClick={() => onDeny(request.requestId)}
+              title='拒否'
+              aria-label={`${request.name} の入室を拒否`}
+            >
+              <FiX />
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  )
+}
@@ -1,24 +1,30 @@
 // src/app/components/ParticipantList/index.tsx
 import React, { useRef, useEffect, useState, useCallback } from 'react'
-import { FiMicOff, FiMonitor } from 'react-icons/fi'
+import { FiMicOff, FiMonitor, FiStar, FiUserX } from 'react-icons/fi'
 import type { Participant } from '../../type'
 import styles from './styles.module.css'
 
 type ParticipantListProps = {
   participants: Participant[]
   myPeerId: string // 自分の Peer ID
-  screenSharingPeerId: string | null // 現在画面共有中の人の Peer ID
+  screenSharingPeerIds: string[] // 現在画面共有中の人の Peer ID
+  hostPeerId: string | null // ホストの Peer ID
 
   selectedSpeakerId: string // 選択中のスピーカーデバイスID
+  onKickParticipant: (peerId: string) => void // ホスト用: 参加者をキック
 }
 
 export default function ParticipantList({
   participants,
   myPeerId,
-  screenSharingPeerId,
+  screenSharingPeerIds,
+  hostPeerId,
 
   selectedSpeakerId,
+  onKickParticipant,
 }: ParticipantListProps) {
+  const isHost = hostPeerId !== null && hostPeerId === myPeerId
+
   const audioRefs = useRef<{ [id: string]: HTMLAudioElement }>({})
   const selectedSpeakerIdRef = useRef(selectedSpeakerId)
 
@@ -83,8 +89,11 @@ export default function ParticipantList({
             >
               <div className={styles.participantInfo}>
                 <span className={styles.participantName}>{p.name}</span>
+                {p.id === hostPeerId && (
+                  <FiStar className={styles.hostBadgeIcon} title='ホスト' />
+                )}
                 {/* 自分が共有中かどうかの判定 */}
-                {p.id === screenSharingPeerId && (
+                {screenSharingPeerIds.includes(p.id) && (
                   <FiMonitor
                     className={styles.screenShareIndicatorIcon}
                     title='画面共有中'
@@ -107,12 +116,31 @@ export default function ParticipantList({
           >
             <div className={styles.participantInfo}>
               <span className={styles.participantName}>{p.name}</span>
-              {p.id === screenSharingPeerId && (
+              {p.id === hostPeerId && (
+                <FiStar className={styles.hostBadgeIcon} title='ホスト' />
+              )}
+              {screenSharingPeerIds.includes(p.id) && (
                 <FiMonitor
                   className={styles.screenShareIndicatorIcon}
                   title='画面共有中'
                 />
               )}
+              {/* ★ ホストだけにキックボタンを表示 */}
+              {isHost && (
+                <button
+                  type='button'
+                  className={styles.kickButton}
+                  onClick={() => {
+                    if (window.confirm(`${p.name} を退出させますか？`)) {
+                      onKickParticipant(p.id)
+                    }
+                  }}
+                  title='退出させる'
+                  aria-label={`${p.name} を退出させる`}
+                >
+                  <FiUserX />
+                </button>
+              )}
             </div>
             <input
               type='range'
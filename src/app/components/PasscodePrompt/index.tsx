@@ -0,0 +1,72 @@
+// src/app/components/PasscodePrompt/index.tsx
+import { useState } from 'react'
+import { FiAlertCircle } from 'react-icons/fi'
+import styles from './styles.module.css'
+
+type PasscodePromptProps = {
+  error: string | null // 合言葉が違う場合などのエラーメッセージ
+  isChecking: boolean // サーバーに確認中か
+  onSubmit: (passcode: string) => void // 合言葉を送信
+  onCancel: () => void // トップに戻る
+}
+
+export default function PasscodePrompt({
+  error,
+  isChecking,
+  onSubmit,
+  onCancel,
+}: PasscodePromptProps) {
+  const [passcode, setPasscode] = useState('')
+
+  const handleSubmit = (event: React.FormEvent<HTMLFormElement>) => {
+    event.preventDefault()
+    if (!passcode.trim() || isChecking) return
+    onSubmit(passcode.trim())
+  }
+
+  return (
+    <form className={styles.prompt} onSubmit={handleSubmit}>
+      <p className={styles.message}>この部屋に入るには合言葉が必要です</p>
+      <input
+        type='password'
+        className={`${styles.input} ${error ? styles.inputError : ''}`}
+        placeholder='合言葉を入力'
+        value={passcode}
+        onChange={(e) => setPasscode(e.target.value)}
+        disabled={isChecking}
+        maxLength={32}
+        autoComplete='off'
+        autoFocus
+        aria-invalid={!!error}
+        aria-describedby={error ? 'passcode-error' : undefined}
+      />
+      <div className={styles.errorMessageContainer} aria-live='polite'>
+        {error && (
+          <>
+            <FiAlertCircle className={styles.errorIcon} aria-hidden='true' />
+            <p id='passcode-error' className={styles.errorMessage}>
+              {error}
+            </p>
+          </>
+        )}
+      </div>
+      <div className={styles.actions}>
+        <button
+          type='button'
+          className={`${styles.button} ${styles.secondaryButton}`}
+          onClick={onCancel}
+          disabled={isChecking}
+        >
+          戻る
+        </button>
+        <button
+          type='submit'
+          className={styles.button}
+          disabled={isChecking || !passcode.trim()}
+        >
+          {isChecking ? '確認中...' : '入室する'}
+        </button>
+      </div>
+    </form>
+  )
+}
@@ -1,20 +1,24 @@
 // src/app/components/PeerManager/index.ts
-import Peer, { MediaConnection, DataConnection, PeerJSOption } from 'peerjs'
-import type { Socket } from 'socket.io-client'
+import type {
+  AppSocket,
+  RelayedSignalPayload,
+  SessionDescriptionPayload,
+  SignalKind,
+  SignalPayload,
+} from '../../type'
 
 // --- インターフェースと型定義 ---
-type Message =
-  | { type: 'USER_NAME'; payload: string }
-  | { type: 'MUTE_STATUS'; payload: boolean }
+// ミュート状態はサーバーが持つ (set-mute / participant-updated) ので、データチャネルでは送らない
+type Message = { type: 'USER_NAME'; payload: string }
 
 export type InitPeerOptions = {
   roomCode: string
-  socket: Socket
+  socket: AppSocket
+  sessionToken?: string // リロード前のセッショントークン (猶予中の席と同じ Peer ID をもらうため)
   onRemoteStream: (stream: MediaStream, peerId: string) => void
   onPeerOpen: (id: string) => void
   onLocalStream: (stream: MediaStream) => void
   onReceiveUserName: (peerId: string, name: string) => void
-  onReceiveMuteStatus: (peerId: string, isMuted: boolean) => void
   onPeerDisconnect: (peerId: string) => void
   onSpeakingStatusChange?: (peerId: string, isSpeaking: boolean) => void
   onLocalScreenStreamUpdate?: (stream: MediaStream | null) => void
@@ -39,15 +43,34 @@ type AudioMixingResources = {
   mixedAudioTrack: MediaStreamTrack
 }
 
+// ★ NAT 越えに使う ICE サーバーは register-peer の応答でサーバーから受け取る
+//   (TURN の認証情報は期限付き)。応答に無い場合だけ公開 STUN を使う
+//   LAN モードのサーバーは空の一覧を返すので、その場合はホスト候補だけで繋ぐ
+const DEFAULT_ICE_SERVERS: RTCIceServer[] = [
+  { urls: 'stun:stun.l.google.com:19302' },
+]
+// register-peer の応答を待つ時間
+const REGISTER_PEER_TIMEOUT_MS = 5000
+
+type PeerConnections = { [id: string]: RTCPeerConnection }
+
 // --- PeerManager クラス定義 ---
+// ★ WebRTC のシグナリング (offer / answer / ICE 候補) は、シグナリングサーバーの socket で中継する
+//   相手ごとに通話用 (音声 + データチャネル) と画面共有用の RTCPeerConnection を持つ
+//   画面共有は複数人が同時に行えるので、自分の画面を送る接続 (見る人ごと) と
+//   相手の画面を受け取る接続 (共有者ごと) を分けて持つ
 export class PeerManager {
-  private peer: Peer | null = null
+  private peerId: string | null = null
   private localStream: MediaStream | null = null
   private screenStream: MediaStream | null = null
   private screenShareTrackEndedListener: (() => void) | null = null
-  private mediaConnections: { [id: string]: MediaConnection } = {}
-  private dataConnections: { [id: string]: DataConnection } = {}
-  private screenMediaConnections: { [id: string]: MediaConnection } = {}
+  private mediaConnections: PeerConnections = {}
+  private dataConnections: { [id: string]: RTCDataChannel } = {}
+  private screenMediaConnections: PeerConnections = {} // 自分の画面を送る (見る人ごと)
+  private viewingScreenConnections: PeerConnections = {} // 相手の画面を受け取る (共有者ごと)
+  // remote description の設定前に届いた ICE 候補 ("<kind>:<peerId>" ごと)
+  private pendingCandidates: { [key: string]: RTCIceCandidateInit[] } = {}
+  private iceServers: RTCIceServer[] = DEFAULT_ICE_SERVERS
   private options: InitPeerOptions | null = null
   private myName = ''
   private isMuted = false
@@ -55,7 +78,7 @@ export class PeerManager {
   private readonly speakingThreshold = 10
   private audioMixingResources: AudioMixingResources | null = null
   private isCurrentlyScreenSharing: boolean = false
-  private socket: Socket | null = null
+  private socket: AppSocket | null = null
   private roomCode: string | null = null
   private originalMicTrack: MediaStreamTrack | null = null
   private silentAudioTrack: MediaStreamTrack | null = null
@@ -67,8 +90,6 @@ export class PeerManager {
     switch (potentialMessage.type) {
       case 'USER_NAME':
         return typeof potentialMessage.payload === 'string'
-      case 'MUTE_STATUS':
-        return typeof potentialMessage.payload === 'boolean'
       default:
         return false
     }
@@ -90,7 +111,7 @@ export class PeerManager {
     }
     track.enabled = false
     console.log(
-      `[PeerManager instance ${this.peer?.id}] Created dummy video track: ${track.id}`
+      `[PeerManager instance ${this.peerId}] Created dummy video track: ${track.id}`
     )
     return track
   }
@@ -111,7 +132,7 @@ export class PeerManager {
     const track = destination.stream.getAudioTracks()[0]
     track.enabled = false // Start disabled, will be enabled by sendMuteStatus if needed for localStream
     console.log(
-      `[PeerManager instance ${this.peer?.id}] Created silent audio track: ${track.id}`
+      `[PeerManager instance ${this.peerId}] Created silent audio track: ${track.id}`
     )
     return track
   }
@@ -168,7 +189,7 @@ export class PeerManager {
       analyse()
     } catch (error) {
       console.error(
-        `[PeerManager instance ${this.peer?.id}] Error starting audio analysis for ${peerId}:`,
+        `[PeerManager instance ${this.peerId}] Error starting audio analysis for ${peerId}:`,
         error
       )
       this.stopAudioAnalysis(peerId)
@@ -200,29 +221,37 @@ export class PeerManager {
     this.audioAnalysisMap.clear()
   }
 
-  private setupDataConnectionHandlers(dataConn: DataConnection) {
-    dataConn.on('open', () => {
-      this.dataConnections[dataConn.peer] = dataConn
-      this.sendMessage('USER_NAME', this.myName, dataConn.peer)
-      this.sendMessage('MUTE_STATUS', this.isMuted, dataConn.peer)
-    })
-    dataConn.on('data', (data) => {
-      this.handleDataMessage(data, dataConn.peer)
-    })
-    dataConn.on('close', () => this.handleDisconnect(dataConn.peer))
-    dataConn.on('error', (err) => {
+  private setupDataChannel(peerId: string, channel: RTCDataChannel) {
+    channel.onopen = () => {
+      this.dataConnections[peerId] = channel
+      this.sendMessage('USER_NAME', this.myName, peerId)
+    }
+    channel.onmessage = (event) => {
+      let data: unknown
+      try {
+        data = JSON.parse(event.data)
+      } catch {
+        data = event.data
+      }
+      this.handleDataMessage(data, peerId)
+    }
+    // こちらから閉じた場合 (handleDisconnect 内) は既に一覧から外してある
+    channel.onclose = () => {
+      if (this.dataConnections[peerId] === channel)
+        this.handleDisconnect(peerId)
+    }
+    channel.onerror = (event) => {
       console.error(
-        `[PeerManager instance ${this.peer?.id}] Data connection error with ${dataConn.peer}:`,
-        err
+        `[PeerManager instance ${this.peerId}] Data channel error with ${peerId}:`,
+        event
       )
-      this.handleDisconnect(dataConn.peer)
-    })
+    }
   }
 
   private handleDataMessage(data: unknown, peerId: string) {
     if (!this.isMessage(data)) {
       console.warn(
-        `[PeerManager instance ${this.peer?.id}] Received invalid or unknown message format from ${peerId}:`,
+        `[PeerManager instance ${this.peerId}] Received invalid or unknown message format from ${peerId}:`,
         data
       )
       return
@@ -231,9 +260,6 @@ export class PeerManager {
       case 'USER_NAME':
         this.options?.onReceiveUserName?.(peerId, data.payload as string)
         break
-      case 'MUTE_STATUS':
-        this.options?.onReceiveMuteStatus?.(peerId, data.payload as boolean)
-        break
     }
   }
 
@@ -270,7 +296,7 @@ export class PeerManager {
       return stream
     } catch (err) {
       console.error(
-        `[PeerManager instance ${this.peer?.id}] Failed to get local media stream:`,
+        `[PeerManager instance ${this.peerId}] Failed to get local media stream:`,
         err
       )
       throw err
@@ -282,21 +308,21 @@ export class PeerManager {
     payload: Message['payload'],
     targetId?: string
   ) {
-    if (!this.peer) return
-    const message = { type, payload } as Message
+    if (!this.peerId) return
+    const message = JSON.stringify({ type, payload } as Message)
     try {
       if (targetId) {
-        if (this.dataConnections[targetId]?.open) {
+        if (this.dataConnections[targetId]?.readyState === 'open') {
           this.dataConnections[targetId].send(message)
         }
       } else {
-        Object.values(this.dataConnections).forEach((conn) => {
-          if (conn.open) conn.send(message)
+        Object.values(this.dataConnections).forEach((channel) => {
+          if (channel.readyState === 'open') channel.send(message)
         })
       }
     } catch (error) {
       console.error(
-        `[PeerManager instance ${this.peer?.id}] Error sending message ${type}:`,
+        `[PeerManager instance ${this.peerId}] Error sending message ${type}:`,
         error
       )
     }
@@ -305,19 +331,203 @@ export class PeerManager {
   private handleDisconnect(peerId: string) {
     if (!peerId) return
     this.stopAudioAnalysis(peerId)
-    if (this.mediaConnections[peerId]) {
-      this.mediaConnections[peerId].close()
-      delete this.mediaConnections[peerId]
+    const channel = this.dataConnections[peerId]
+    delete this.dataConnections[peerId]
+    channel?.close()
+    this.closeConnection('call', peerId)
+    this.closeConnection('screen', peerId)
+    this.closeConnection('screen-viewer', peerId)
+    this.options?.onPeerDisconnect(peerId)
+  }
+
+  // kind はこちらから送るシグナルの種類 ('screen' は自分が共有する側、'screen-viewer' は見る側)
+  private connectionsOf(kind: SignalKind): PeerConnections {
+    switch (kind) {
+      case 'call':
+        return this.mediaConnections
+      case 'screen':
+        return this.screenMediaConnections
+      case 'screen-viewer':
+        return this.viewingScreenConnections
     }
-    if (this.dataConnections[peerId]) {
-      this.dataConnections[peerId].close()
-      delete this.dataConnections[peerId]
+  }
+
+  // 相手から届いたシグナルの種類を、こちら側の接続の種類に読み替える
+  private localKindOf(receivedKind: SignalKind): SignalKind {
+    switch (receivedKind) {
+      case 'call':
+        return 'call'
+      case 'screen':
+        return 'screen-viewer' // 共有者から届いた -> 自分は見る側
+      case 'screen-viewer':
+        return 'screen' // 見る人から届いた -> 自分は共有する側
     }
-    if (this.screenMediaConnections[peerId]) {
-      this.screenMediaConnections[peerId].close()
-      delete this.screenMediaConnections[peerId]
+  }
+
+  private closeConnection(kind: SignalKind, peerId: string) {
+    const connections = this.connectionsOf(kind)
+    const pc = connections[peerId]
+    delete connections[peerId]
+    delete this.pendingCandidates[`${kind}:${peerId}`]
+    pc?.close()
+  }
+
+  // --- シグナリング ---
+  private sendSignal(
+    to: string,
+    kind: SignalKind,
+    signal: Pick<SignalPayload, 'description' | 'candidate'>
+  ) {
+    this.socket?.emit('signal', { to, kind, ...signal })
+  }
+
+  private createConnection(peerId: string, kind: SignalKind) {
+    const pc = new RTCPeerConnection({ iceServers: this.iceServers })
+    this.connectionsOf(kind)[peerId] = pc
+    pc.onicecandidate = ({ candidate }) => {
+      if (candidate)
+        this.sendSignal(peerId, kind, { candidate: candidate.toJSON() })
     }
-    this.options?.onPeerDisconnect(peerId)
+    pc.onconnectionstatechange = () => {
+      if (pc.connectionState !== 'failed') return
+      console.warn(
+        `[PeerManager instance ${this.peerId}] ${kind} connection with ${peerId} failed.`
+      )
+      if (this.connectionsOf(kind)[peerId] !== pc) return
+      if (kind === 'call') this.handleDisconnect(peerId)
+      else this.closeConnection(kind, peerId)
+    }
+    return pc
+  }
+
+  // 通話用の接続で受け取った相手の音声
+  private handleRemoteTrack(peerId: string) {
+    return ({ track, streams }: RTCTrackEvent) => {
+      const [remoteStream] = streams
+      if (track.kind !== 'audio' || !remoteStream) return
+      this.options?.onRemoteStream(remoteStream, peerId)
+      this.startAudioAnalysis(peerId, remoteStream)
+    }
+  }
+
+  private async sendOffer(
+    peerId: string,
+    kind: SignalKind,
+    pc: RTCPeerConnection
+  ) {
+    await pc.setLocalDescription(await pc.createOffer())
+    this.sendSignal(peerId, kind, {
+      description: pc.localDescription as SessionDescriptionPayload,
+    })
+  }
+
+  private async applyRemoteDescription(
+    peerId: string,
+    kind: SignalKind,
+    pc: RTCPeerConnection,
+    description: SessionDescriptionPayload
+  ) {
+    await pc.setRemoteDescription(description)
+    const key = `${kind}:${peerId}`
+    const candidates = this.pendingCandidates[key] || []
+    delete this.pendingCandidates[key]
+    for (const candidate of candidates) await pc.addIceCandidate(candidate)
+  }
+
+  // 相手からの offer に応答する (通話なら自分の音声も送り返す)
+  // 画面共有の offer は共有者から届くので、kind は 'screen-viewer' になる
+  private async acceptOffer(
+    peerId: string,
+    kind: SignalKind,
+    description: SessionDescriptionPayload
+  ) {
+    if (kind === 'call') {
+      // ★ お互いに同時にかけた場合 (offer の衝突) は、Peer ID の小さい側が自分の offer を取り下げて応答する
+      //   大きい側は届いた offer を無視し、自分の offer への answer を待つ
+      const pendingOffer = this.mediaConnections[peerId]
+      if (
+        pendingOffer?.signalingState === 'have-local-offer' &&
+        this.peerId &&
+        this.peerId > peerId
+      ) {
+        console.log(
+          `[PeerManager instance ${this.peerId}] Ignoring colliding offer from ${peerId}`
+        )
+        return
+      }
+      if (!this.localStream) await this.getLocalStream()
+      if (!this.peerId || !this.localStream) return
+      // 相手が接続し直してきた場合は、古い接続を片付けてから受ける
+      if (this.mediaConnections[peerId]) this.handleDisconnect(peerId)
+    } else {
+      this.closeConnection(kind, peerId)
+    }
+
+    const pc = this.createConnection(peerId, kind)
+    if (kind === 'call') {
+      const localStream = this.localStream!
+      localStream
+        .getTracks()
+        .forEach((track) => pc.addTrack(track, localStream))
+      pc.ondatachannel = ({ channel }) => this.setupDataChannel(peerId, channel)
+      pc.ontrack = this.handleRemoteTrack(peerId)
+    } else {
+      pc.ontrack = ({ track, streams }) => {
+        if (track.kind === 'video' && streams[0]) {
+          this.options?.onRemoteScreenStreamUpdate?.(streams[0], peerId)
+        }
+      }
+    }
+
+    await this.applyRemoteDescription(peerId, kind, pc, description)
+    await pc.setLocalDescription(await pc.createAnswer())
+    this.sendSignal(peerId, kind, {
+      description: pc.localDescription as SessionDescriptionPayload,
+    })
+  }
+
+  private async handleSignal({
+    from,
+    kind: receivedKind,
+    description,
+    candidate,
+  }: RelayedSignalPayload) {
+    const kind = this.localKindOf(receivedKind)
+    if (description?.type === 'offer') {
+      await this.acceptOffer(from, kind, description)
+      return
+    }
+    const pc = this.connectionsOf(kind)[from]
+    if (description?.type === 'answer') {
+      // offer を取り下げた後に届いた answer は使わない
+      if (pc?.signalingState === 'have-local-offer') {
+        await this.applyRemoteDescription(from, kind, pc, description)
+      }
+      return
+    }
+    if (!candidate) return
+    // offer / answer の処理が終わる前に届いた候補は、後でまとめて追加する
+    if (!pc?.remoteDescription) {
+      const key = `${kind}:${from}`
+      this.pendingCandidates[key] = [
+        ...(this.pendingCandidates[key] || []),
+        candidate,
+      ]
+      return
+    }
+    await pc.addIceCandidate(candidate)
+  }
+
+  private handleSignalEvent = (payload: RelayedSignalPayload) => {
+    this.handleSignal(payload).catch((error) => {
+      console.error(
+        `[PeerManager instance ${this.peerId}] Failed to handle ${payload.kind} signal from ${payload.from}:`,
+        error
+      )
+      const kind = this.localKindOf(payload.kind)
+      if (kind === 'call') this.handleDisconnect(payload.from)
+      else this.closeConnection(kind, payload.from)
+    })
   }
 
   public isScreenSharing(): boolean {
@@ -332,137 +542,62 @@ export class PeerManager {
     this.options = options
     this.myName = peerName
     this.isMuted = initialIsMuted
+    this.socket?.off('signal', this.handleSignalEvent)
     this.socket = options.socket
     this.roomCode = options.roomCode
 
-    if (this.peer) {
-      this.peer.destroy()
-      this.peer = null
+    // ★ Peer ID はシグナリングサーバーが発行する
+    const response = await options.socket
+      .timeout(REGISTER_PEER_TIMEOUT_MS)
+      .emitWithAck('register-peer', {
+        roomCode: options.roomCode,
+        sessionToken: options.sessionToken,
+      })
+    if (!response.success || !response.peerId) {
+      throw new Error(response.message || 'Peer ID を取得できませんでした。')
     }
+    // 待っている間に disconnectAll された
+    if (this.options !== options) return response.peerId
 
-    return new Promise<string>(async (resolve, reject) => {
-      try {
-        const peerJsOptions: PeerJSOption = { debug: 2 }
-        this.peer = new Peer(peerJsOptions)
-
-        this.peer.on('open', async (id) => {
-          if (!this.peer || this.peer.destroyed) return
-          try {
-            await this.getLocalStream()
-            this.options?.onPeerOpen(id)
-            resolve(id)
-          } catch (streamError) {
-            if (this.peer && !this.peer.destroyed) this.peer.destroy()
-            this.peer = null
-            reject(new Error('マイクへのアクセスに失敗しました。'))
-          }
-        })
-
-        this.peer.on('connection', (dataConn) => {
-          this.setupDataConnectionHandlers(dataConn)
-        })
-
-        this.peer.on('call', async (call) => {
-          if (call.metadata?.type === 'screenShare') {
-            call.answer()
-            call.on('stream', (remoteScreenStream) => {
-              this.options?.onRemoteScreenStreamUpdate?.(
-                remoteScreenStream,
-                call.peer
-              )
-            })
-            call.on(
-              'close',
-              () => delete this.screenMediaConnections[call.peer]
-            )
-            call.on('error', (err) => {
-              console.error(`Screen share call error with ${call.peer}:`, err)
-              delete this.screenMediaConnections[call.peer]
-            })
-            this.screenMediaConnections[call.peer] = call
-          } else {
-            try {
-              if (!this.localStream) await this.getLocalStream()
-              if (!this.localStream) return
-
-              call.answer(this.localStream)
-              call.on('stream', (remoteStream) => {
-                this.options?.onRemoteStream(remoteStream, call.peer)
-                this.startAudioAnalysis(call.peer, remoteStream)
-              })
-              call.on('close', () => this.handleDisconnect(call.peer))
-              call.on('error', (err) => {
-                console.error(`Audio call error with ${call.peer}:`, err)
-                this.handleDisconnect(call.peer)
-              })
-              this.mediaConnections[call.peer] = call
-            } catch (err) {
-              console.error(`Error answering audio call:`, err)
-            }
-          }
-        })
-        this.peer.on('disconnected', () => console.warn(`Peer disconnected.`))
-        this.peer.on('close', () => (this.peer = null))
-        this.peer.on('error', (err) => {
-          console.error(`PeerJS error:`, err)
-          if (err.type === 'peer-unavailable') {
-            const unavailablePeerId = err.message.match(/peer\s(.*?)\s/)?.[1]
-            if (unavailablePeerId) this.handleDisconnect(unavailablePeerId)
-          }
-          if (
-            ['server-error', 'socket-error', 'socket-closed'].includes(err.type)
-          ) {
-            if (this.peer && !this.peer.destroyed) this.peer.destroy()
-            this.peer = null
-          }
-        })
-      } catch (err) {
-        if (this.peer && !this.peer.destroyed) this.peer.destroy()
-        this.peer = null
-        reject(err)
-      }
-    })
-  }
-
-  private async connectData(targetId: string): Promise<DataConnection | null> {
-    if (!this.peer) return null
-    if (this.dataConnections[targetId]?.open)
-      return this.dataConnections[targetId]
+    const id = response.peerId
+    this.peerId = id
+    if (response.iceServers) this.iceServers = response.iceServers
+    options.socket.on('signal', this.handleSignalEvent)
 
-    return new Promise((resolve) => {
-      try {
-        if (!this.peer) {
-          resolve(null)
-          return
-        }
-        const dataConn = this.peer.connect(targetId)
-        dataConn.on('open', () => {
-          this.setupDataConnectionHandlers(dataConn)
-          resolve(dataConn)
-        })
-        dataConn.on('error', (err) => {
-          delete this.dataConnections[targetId]
-          resolve(null)
-        })
-      } catch (error) {
-        resolve(null)
-      }
-    })
+    try {
+      await this.getLocalStream()
+    } catch (streamError) {
+      options.socket.off('signal', this.handleSignalEvent)
+      this.peerId = null
+      throw new Error('マイクへのアクセスに失敗しました。')
+    }
+    if (this.options !== options) return id
+    this.options.onPeerOpen(id)
+    return id
   }
 
+  // ★ 通話は新しく入った人 (席に戻った人も) から既にいる人へかける (相手は acceptOffer で応答する)
+  //   既にいる側は user-joined ではかけない (お互いにかけると offer が衝突する)
   public async callPeer(targetId: string) {
-    if (!this.peer || !this.options || this.mediaConnections[targetId]) return
+    if (!this.peerId || !this.options || this.mediaConnections[targetId]) return
 
     try {
-      await this.connectData(targetId)
       if (!this.localStream) await this.getLocalStream()
-      if (!this.peer || !this.localStream) return
-
-      const call = this.peer.call(targetId, this.localStream)
-      call.on('close', () => this.handleDisconnect(targetId))
-      call.on('error', (err) => this.handleDisconnect(targetId))
-      this.mediaConnections[targetId] = call
+      if (!this.peerId || !this.localStream) return
+
+      const localStream = this.localStream
+      const pc = this.createConnection(targetId, 'call')
+      localStream
+        .getTracks()
+        .forEach((track) => pc.addTrack(track, localStream))
+      pc.ontrack = this.handleRemoteTrack(targetId)
+      this.setupDataChannel(targetId, pc.createDataChannel('messages'))
+      await this.sendOffer(targetId, 'call', pc)
     } catch (err) {
+      console.error(
+        `[PeerManager instance ${this.peerId}] Failed to call ${targetId}:`,
+        err
+      )
       this.handleDisconnect(targetId)
     }
   }
@@ -531,30 +666,28 @@ export class PeerManager {
         this.screenMediaConnections
       )
     }
-    this.sendMessage('MUTE_STATUS', this.isMuted)
   }
 
   private async replaceTrackForAllConnections(
     newTrack: MediaStreamTrack | null,
     kind: 'audio',
-    connections: { [id: string]: MediaConnection }
+    connections: PeerConnections
   ) {
     console.log(
-      `[PeerManager instance ${this.peer?.id}] Replacing ${kind} track. New track: ${newTrack?.id ?? 'null'}`
+      `[PeerManager instance ${this.peerId}] Replacing ${kind} track. New track: ${newTrack?.id ?? 'null'}`
     )
-    const replacePromises = Object.values(connections).map(async (conn) => {
-      const pc = conn.peerConnection as RTCPeerConnection | undefined
-      if (pc) {
+    const replacePromises = Object.entries(connections).map(
+      async ([peerId, pc]) => {
         const sender = pc.getSenders().find((s) => s.track?.kind === kind)
         if (sender) {
           try {
             await sender.replaceTrack(newTrack)
             console.log(
-              `[PeerManager replaceTrackForAllConnections DEBUG] After replaceTrack for ${conn.peer}: sender.track ID: ${sender.track?.id ?? 'null'}, sender.track.enabled: ${sender.track?.enabled}, sender.transport.iceTransport.state: ${sender.transport?.iceTransport.state}`
+              `[PeerManager replaceTrackForAllConnections DEBUG] After replaceTrack for ${peerId}: sender.track ID: ${sender.track?.id ?? 'null'}, sender.track.enabled: ${sender.track?.enabled}, sender.transport.iceTransport.state: ${sender.transport?.iceTransport.state}`
             )
             // ★★★ ここまで ★★★
             console.log(
-              `[PeerManager] Successfully replaced ${kind} track for ${conn.peer} with ${newTrack?.id ?? 'null'}. Sender track now: ${sender.track?.id ?? 'null'}, enabled: ${sender.track?.enabled}`
+              `[PeerManager] Successfully replaced ${kind} track for ${peerId} with ${newTrack?.id ?? 'null'}. Sender track now: ${sender.track?.id ?? 'null'}, enabled: ${sender.track?.enabled}`
             )
             // If newTrack is not null (i.e., unmuting), ensure its enabled state is true.
             // If newTrack is null (i.e., muting), sender.track will be null, and enabled doesn't apply.
@@ -562,18 +695,18 @@ export class PeerManager {
               // Check if sender.track exists (it won't if newTrack was null)
               sender.track.enabled = !this.isMuted // This should align with the trackToUseForSend's intended state
               console.log(
-                `[PeerManager] Set sender.track ${sender.track.id} for ${conn.peer} enabled to ${sender.track.enabled} (isMuted: ${this.isMuted})`
+                `[PeerManager] Set sender.track ${sender.track.id} for ${peerId} enabled to ${sender.track.enabled} (isMuted: ${this.isMuted})`
               )
             }
           } catch (error) {
             console.error(
-              `[PeerManager] Failed to replace ${kind} track for ${conn.peer}:`,
+              `[PeerManager] Failed to replace ${kind} track for ${peerId}:`,
               error
             )
           }
         }
       }
-    })
+    )
     await Promise.all(replacePromises)
   }
 
@@ -662,7 +795,7 @@ export class PeerManager {
   }
 
   public async startScreenShareToPeer(peerId: string): Promise<void> {
-    if (!this.peer || !this.isCurrentlyScreenSharing || !this.screenStream)
+    if (!this.peerId || !this.isCurrentlyScreenSharing || !this.screenStream)
       return
     if (this.screenMediaConnections[peerId]) return
 
@@ -682,18 +815,15 @@ export class PeerManager {
     }
 
     try {
-      const screenCall = this.peer.call(peerId, streamToShare, {
-        metadata: { type: 'screenShare' },
-      })
-      if (!screenCall) throw new Error('Failed to initiate screen share call.')
-      screenCall.on('close', () => delete this.screenMediaConnections[peerId])
-      screenCall.on(
-        'error',
-        (err) => delete this.screenMediaConnections[peerId]
-      )
-      this.screenMediaConnections[peerId] = screenCall
+      // 画面共有は相手からは受信するだけの別の接続で送る
+      const screenPc = this.createConnection(peerId, 'screen')
+      streamToShare
+        .getTracks()
+        .forEach((track) => screenPc.addTrack(track, streamToShare))
+      await this.sendOffer(peerId, 'screen', screenPc)
     } catch (error) {
       console.error(`Error starting screen share to ${peerId}:`, error)
+      this.closeConnection('screen', peerId)
     }
   }
 
@@ -701,12 +831,11 @@ export class PeerManager {
     if (this.isCurrentlyScreenSharing) return
     this.cleanupAudioMixingResources()
 
-    Object.values(this.mediaConnections).forEach((conn) => {
-      const pc = conn.peerConnection as RTCPeerConnection | undefined
-      pc?.getSenders().forEach((sender) => {
+    Object.entries(this.mediaConnections).forEach(([peerId, pc]) => {
+      pc.getSenders().forEach((sender) => {
         if (sender.track?.kind === 'audio' && sender.track) {
           console.log(
-            `[PeerManager startScreenShare] Disabling audio track ${sender.track.id} on mediaConnection for ${conn.peer}`
+            `[PeerManager startScreenShare] Disabling audio track ${sender.track.id} on mediaConnection for ${peerId}`
           )
           sender.track.enabled = false // Disable audio on normal call during screen share
         }
@@ -742,9 +871,8 @@ export class PeerManager {
       // Update screenMediaConnections with the correct audio track (or null)
       // This needs to be done carefully if connections already exist or are made later.
       // For simplicity, we'll update existing ones here. New ones will get it via startScreenShareToPeer.
-      Object.values(this.screenMediaConnections).forEach((conn) => {
-        const pc = conn.peerConnection as RTCPeerConnection | undefined
-        const sender = pc?.getSenders().find((s) => s.track?.kind === 'audio')
+      Object.values(this.screenMediaConnections).forEach((pc) => {
+        const sender = pc.getSenders().find((s) => s.track?.kind === 'audio')
         if (sender) {
           sender
             .replaceTrack(audioTrackForScreenConnections)
@@ -781,8 +909,9 @@ export class PeerManager {
     this.isCurrentlyScreenSharing = false
     this.cleanupScreenShareResources()
 
-    Object.values(this.screenMediaConnections).forEach((conn) => conn.close())
-    this.screenMediaConnections = {}
+    Object.keys(this.screenMediaConnections).forEach((peerId) =>
+      this.closeConnection('screen', peerId)
+    )
 
     if (this.socket?.connected) this.socket.emit('notify-stop-share')
 
@@ -856,15 +985,21 @@ export class PeerManager {
     this.cleanupScreenShareResources()
     this.stopAllAudioAnalysis()
 
-    Object.values(this.mediaConnections).forEach((conn) => conn.close())
-    Object.values(this.dataConnections).forEach((conn) => conn.close())
-    Object.values(this.screenMediaConnections).forEach((conn) => conn.close())
+    const channels = Object.values(this.dataConnections)
+    this.dataConnections = {} // onclose で handleDisconnect が呼ばれないよう先に外す
+    channels.forEach((channel) => channel.close())
+    Object.values(this.mediaConnections).forEach((pc) => pc.close())
+    Object.values(this.screenMediaConnections).forEach((pc) => pc.close())
+    Object.values(this.viewingScreenConnections).forEach((pc) => pc.close())
     this.mediaConnections = {}
-    this.dataConnections = {}
     this.screenMediaConnections = {}
+    this.viewingScreenConnections = {}
+    this.pendingCandidates = {}
+    this.iceServers = DEFAULT_ICE_SERVERS
 
-    if (this.peer && !this.peer.destroyed) this.peer.destroy()
-    this.peer = null
+    this.socket?.off('signal', this.handleSignalEvent)
+    this.socket = null
+    this.peerId = null
 
     this.localStream?.getTracks().forEach((track) => track.stop())
     this.localStream = null
@@ -0,0 +1,17 @@
+// src/app/components/ReconnectBanner/index.tsx
+import { FiLoader } from 'react-icons/fi'
+import styles from './styles.module.css'
+
+type ReconnectBannerProps = {
+  message: string
+}
+
+// ★ サーバーの再起動中に出すお知らせ (通話は続いており、再起動が終わると自動で部屋に戻る)
+export default function ReconnectBanner({ message }: ReconnectBannerProps) {
+  return (
+    <div className={styles.reconnectBanner} role='status'>
+      <FiLoader className={styles.spinner} aria-hidden='true' />
+      <span className={styles.message}>{message}</span>
+    </div>
+  )
+}
@@ -0,0 +1,23 @@
+// src/app/components/ReloadBanner/index.tsx
+import { FiRefreshCw } from 'react-icons/fi'
+import styles from './styles.module.css'
+
+type ReloadBannerProps = {
+  message: string
+}
+
+// ★ 画面上部に出し続けるお知らせ (サーバーとバージョンが合わないなど、再読み込みしないと直らない場合)
+export default function ReloadBanner({ message }: ReloadBannerProps) {
+  return (
+    <div className={styles.reloadBanner} role='alert'>
+      <span className={styles.message}>{message}</span>
+      <button
+        className={styles.reloadButton}
+        onClick={() => window.location.reload()}
+      >
+        <FiRefreshCw aria-hidden='true' />
+        再読み込み
+      </button>
+    </div>
+  )
+}
@@ -2,12 +2,22 @@
 import { useState, useEffect, useCallback, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import styles from './styles.module.css'
-import io, { Socket } from 'socket.io-client'
 import { FiClipboard, FiX, FiAlertCircle } from 'react-icons/fi'
+import {
+  checkRoomExists,
+  createRoom,
+  saveRoomPasscode,
+  saveRoomCreateOptions,
+  formatJoinError,
+  DEFAULT_MAX_PARTICIPANTS,
+  MAX_PARTICIPANTS_LIMIT,
+} from '../../roomAccess'
 
-// WebSocket サーバーの URL (CallScreen と同じもの)
-const WEBSOCKET_SERVER_URL =
-  process.env.NEXT_PUBLIC_WEBSOCKET_SERVER_URL || 'http://localhost:3001'
+// 定員の選択肢 (2人 〜 上限)
+const MAX_PARTICIPANTS_OPTIONS = Array.from(
+  { length: MAX_PARTICIPANTS_LIMIT - 1 },
+  (_, i) => i + 2
+)
 
 type RoomControlActions = {
   createRoom?: () => void
@@ -36,23 +46,51 @@ export default function RoomControls({
   clearError,
 }: Props) {
   const [roomCodeInput, setRoomCodeInput] = useState('')
+  const [passcodeInput, setPasscodeInput] = useState('') // ★ 合言葉 (任意)
+  const [maxParticipants, setMaxParticipants] = useState(
+    DEFAULT_MAX_PARTICIPANTS
+  ) // ★ 部屋の定員 (部屋を立てる時のみ)
+  const [approvalRequired, setApprovalRequired] = useState(false) // ★ 入室をホストの承認制にする (部屋を立てる時のみ)
   const [isCheckingRoom, setIsCheckingRoom] = useState(false) // 確認中フラグを追加
   const [isInputFocused, setIsInputFocused] = useState(false) // ★ フォーカス状態
   const [isInputHovered, setIsInputHovered] = useState(false) // ★ ホバー状態
   const inputRef = useRef<HTMLInputElement>(null) // ★ input 要素への参照
 
   // ★ 部屋を作成する処理 (useCallback でメモ化)
-  const handleCreateRoom = useCallback(() => {
+  const handleCreateRoom = useCallback(async () => {
     if (!name.trim()) {
       showError('名前を入力してください。', 'name')
       return
     }
+    if (isCheckingRoom) return
     // ★ localStorage に名前を保存
     localStorage.setItem('my_name', name)
     console.log(`Saved name to localStorage: ${name}`)
-    const newRoomCode = 'room-' + Math.random().toString(36).substring(2, 8)
-    router.push(`/room/${newRoomCode}`)
-  }, [name, router, showError])
+
+    setIsCheckingRoom(true)
+    try {
+      // ★ ルームコードはサーバーが重複しないように発行する
+      const newRoomCode = await createRoom()
+      // ★ 合言葉を設定した場合は、部屋作成時 (join-room) に送るため保存
+      saveRoomPasscode(newRoomCode, passcodeInput.trim())
+      saveRoomCreateOptions(newRoomCode, { maxParticipants, approvalRequired })
+      router.push(`/room/${newRoomCode}`)
+    } catch (error: unknown) {
+      console.error('Error creating room:', error)
+      const errorMessage =
+        error instanceof Error ? error.message : '不明なエラー'
+      showError(`部屋の作成に失敗: ${errorMessage}`, 'roomCode')
+      setIsCheckingRoom(false)
+    }
+  }, [
+    isCheckingRoom,
+    name,
+    passcodeInput,
+    maxParticipants,
+    approvalRequired,
+    router,
+    showError,
+  ])
 
   // ★ ペースト処理
   const handlePaste = async () => {
@@ -102,71 +140,29 @@ export default function RoomControls({
     // 確認中フラグを立てる (ボタンを無効化するため)
     setIsCheckingRoom(true)
 
-    let socket: Socket | null = null // socket 変数を宣言
     try {
-      // 一時的に WebSocket 接続を作成
-      socket = io(WEBSOCKET_SERVER_URL, {
-        reconnection: false, // 自動再接続は不要
-        timeout: 5000, // 5秒でタイムアウト
-      })
-
-      // 接続成功またはエラーを待つ (Promise 化)
-      await new Promise<void>((resolve, reject) => {
-        socket!.once('connect', resolve)
-        socket!.once('connect_error', (err) => {
-          console.error('Temporary socket connection error:', err)
-          reject(new Error('サーバー接続エラー')) // エラーメッセージを具体的に
-        })
-        // タイムアウト処理 (connect_error が発火しない場合もあるため)
-        const timer = setTimeout(
-          () => reject(new Error('サーバー接続タイムアウト')),
-          5000
-        )
-        socket!.once('connect', () => clearTimeout(timer)) // 接続成功したらタイマー解除
-      })
-
-      console.log(
-        '[RoomControls] Temporarily connected to WebSocket for room check.'
-      )
-
-      // サーバーに部屋の存在確認をリクエスト (Promise 化)
-      const result = await new Promise<{ exists: boolean }>(
-        (resolve, reject) => {
-          socket!.emit(
-            'check-room-exists',
-            { roomCode: fullRoomCode },
-            (response: { exists: boolean } | null) => {
-              // コールバックが想定通り呼ばれたかチェック
-              if (response && typeof response.exists === 'boolean') {
-                resolve(response)
-              } else {
-                // サーバーからの応答がない、または形式が違う場合
-                reject(new Error('サーバーからの応答が不正です。'))
-              }
-            }
-          )
-          // emit に対する応答タイムアウト
-          setTimeout(() => reject(new Error('部屋確認タイムアウト')), 5000)
-          // コールバックが呼ばれたらタイマー解除 (socket.io v3以降ではackは一度しか呼ばれない)
-          // socket.io v3+ では ack は Promise を返すので、本来はそちらを使うのがモダン
-          // socket.emitWithAck('check-room-exists', { roomCode: codeToJoin }).then(resolve).catch(reject);
-          // 今回は callback 形式で実装
-          // ※ ack が呼ばれたことを確実に検知する方法が標準APIにはないため、
-          //   ここでは emitTimer の解除は省略し、エラー時の reject に任せる。
-        }
-      )
+      const passcode = passcodeInput.trim()
+      const result = await checkRoomExists(fullRoomCode, passcode)
 
       console.log(
         `[RoomControls] Room ${fullRoomCode} exists check result:`,
-        result.exists
+        result
       )
 
-      if (result.exists) {
+      if (result.exists && !result.error) {
         // 部屋が存在する場合のみ localStorage に保存して画面遷移
         localStorage.setItem('my_name', name)
         console.log(`Saved name to localStorage: ${name}`)
+        saveRoomPasscode(fullRoomCode, passcode)
         router.push(`/room/${fullRoomCode}`)
         // 遷移成功時は setIsCheckingRoom(false) は不要 (画面が変わるため)
+      } else if (result.error) {
+        // ★ 合言葉が必要・違うなど、サーバーが入室を拒否した場合
+        showError(
+          formatJoinError(result.error, result.retryAfterMs),
+          'roomCode'
+        )
+        setIsCheckingRoom(false)
       } else {
         // 部屋が存在しない場合
         showError(`コードが間違っています`, 'roomCode')
@@ -181,14 +177,8 @@ export default function RoomControls({
       }
       showError(`確認失敗: ${errorMessage}`, 'roomCode')
       setIsCheckingRoom(false)
-    } finally {
-      // 確認が終わったら必ず切断
-      if (socket) {
-        console.log('[RoomControls] Disconnecting temporary WebSocket.')
-        socket.disconnect()
-      }
     }
-  }, [name, roomCodeInput, router, showError, clearError])
+  }, [name, roomCodeInput, passcodeInput, router, showError, clearError])
 
   //  NameInput の Enter キー処理関数を追加
   const handleNameInputEnter = useCallback(() => {
@@ -223,10 +213,50 @@ export default function RoomControls({
   return (
     <div className={styles.controls}>
       {/* disabled 属性はハンドラ内のチェックで代替できるため削除してもOK */}
+      <div className={styles.roomOptions}>
+        {/* ★ 合言葉 (部屋を立てる時は設定、入る時は照合に使う) */}
+        <input
+          type='password'
+          className={styles.passcodeInput}
+          placeholder='合言葉 (任意)'
+          value={passcodeInput}
+          onChange={(e) => {
+            setPasscodeInput(e.target.value)
+            clearError()
+          }}
+          disabled={isCheckingRoom}
+          maxLength={32}
+          autoComplete='off'
+        />
+        {/* ★ 定員 (部屋を立てる時のみ使用) */}
+        <select
+          className={styles.capacitySelect}
+          value={maxParticipants}
+          onChange={(e) => setMaxParticipants(Number(e.target.value))}
+          disabled={isCheckingRoom}
+          title='部屋の定員 (部屋を立てる時のみ)'
+        >
+          {MAX_PARTICIPANTS_OPTIONS.map((count) => (
+            <option key={count} value={count}>
+              最大{count}人
+            </option>
+          ))}
+        </select>
+      </div>
+      {/* ★ 承認制 (部屋を立てる時のみ使用) */}
+      <label className={styles.approvalToggle}>
+        <input
+          type='checkbox'
+          checked={approvalRequired}
+          onChange={(e) => setApprovalRequired(e.target.checked)}
+          disabled={isCheckingRoom}
+        />
+        入室を承認制にする
+      </label>
       <button
         onClick={handleCreateRoom}
         disabled={isCheckingRoom} // 確認中は無効化
-        className={styles.button}
+        className={`${styles.button} ${styles.createButton}`}
       >
         部屋を立てる
       </button>
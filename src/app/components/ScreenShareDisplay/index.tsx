@@ -1,77 +1,167 @@
 // src/app/components/ScreenShareDisplay/index.tsx
-import React from 'react'
+import React, { useState } from 'react'
+import { FiGrid, FiMaximize } from 'react-icons/fi'
 import styles from './styles.module.css'
 
+type ScreenSharer = {
+  peerId: string
+  name: string
+}
+
+// ★ 複数人が共有している時の並べ方 (見る人ごとに選ぶ)
+//   grid: 全員の画面を同じ大きさで並べる / focus: 選んだ 1 人を大きく、他の人は横に小さく
+type ScreenShareLayout = 'grid' | 'focus'
+
 type ScreenShareDisplayProps = {
-  screenSharingPeerId: string | null // 現在画面共有中の人の Peer ID
+  sharers: ScreenSharer[] // 画面共有中の人 (共有を始めた順)
   myPeerId: string // 自分の Peer ID
   localScreenStream: MediaStream | null // 自分の画面共有ストリーム (プレビュー用)
-  remoteScreenStream: MediaStream | null // 他の人の画面共有ストリーム
-  screenVideoRef: React.RefObject<HTMLVideoElement | null> // リモート画面用 <video> 要素の Ref
-  localScreenPreviewRef: React.RefObject<HTMLVideoElement | null> // ローカルプレビュー用 <video> 要素の Ref
+  remoteScreenStreams: { [peerId: string]: MediaStream } // 他の人の画面共有ストリーム (共有者ごと)
+  screenVideoRefs: React.RefObject<{ [peerId: string]: HTMLVideoElement }> // リモート画面用 <video> 要素 (音量は CallControlsFooter で制御)
 }
 
 export default function ScreenShareDisplay({
-  screenSharingPeerId,
+  sharers,
   myPeerId,
   localScreenStream,
-  remoteScreenStream,
-  screenVideoRef,
-  localScreenPreviewRef,
+  remoteScreenStreams,
+  screenVideoRefs,
 }: ScreenShareDisplayProps) {
-  const isScreenSharingMyself =
-    screenSharingPeerId === myPeerId && myPeerId !== ''
+  const [layout, setLayout] = useState<ScreenShareLayout>('grid')
+  const [selectedPeerId, setSelectedPeerId] = useState<string | null>(null)
+
+  if (sharers.length === 0) {
+    // 誰も共有していない
+    return (
+      <div className={styles.screenShareArea}>
+        <div className={styles.noScreenShare}>画面共有はされていません</div>
+      </div>
+    )
+  }
+
+  const isMultiple = sharers.length > 1
+  const isFocusLayout = isMultiple && layout === 'focus'
+  // 選んだ人が共有をやめていたら、最初の共有者を大きく表示する
+  const focusedPeerId = sharers.some((s) => s.peerId === selectedPeerId)
+    ? selectedPeerId
+    : sharers[0].peerId
+
+  // ★ 並べ方を切り替えても <video> を作り直さない (共有者の声も画面共有の接続で届くため)
+  //   タイルは常に同じ順で描画し、CSS グリッドの配置だけを変える
+  const gridStyle: React.CSSProperties = isFocusLayout
+    ? {
+        gridTemplateRows: `repeat(${sharers.length - 1}, minmax(0, 1fr))`,
+      }
+    : {
+        gridTemplateColumns: `repeat(${Math.min(sharers.length, 2)}, minmax(0, 1fr))`,
+      }
+
+  const renderScreen = (peerId: string) => {
+    if (peerId === myPeerId) {
+      if (!localScreenStream) {
+        return <div className={styles.loadingScreenShare}>画面を準備中...</div>
+      }
+      return (
+        <video
+          ref={(el) => {
+            if (el && el.srcObject !== localScreenStream) {
+              el.srcObject = localScreenStream
+            }
+          }}
+          className={styles.localScreenPreview}
+          autoPlay
+          playsInline
+          muted // 自分のプレビューはミュート
+        />
+      )
+    }
+    const stream = remoteScreenStreams[peerId]
+    if (!stream) {
+      // まだリモートストリームがない
+      return (
+        <div className={styles.loadingScreenShare}>画面を読み込み中...</div>
+      )
+    }
+    return (
+      <video
+        ref={(el) => {
+          if (el) {
+            screenVideoRefs.current[peerId] = el
+            if (el.srcObject !== stream) el.srcObject = stream
+          } else {
+            delete screenVideoRefs.current[peerId]
+          }
+        }}
+        className={styles.screenVideo}
+        autoPlay
+        playsInline
+        // リモート画面の音量は CallControlsFooter で制御するので muted は不要
+      />
+    )
+  }
 
   return (
-    // ★ screenShareArea クラスを適用
     <div className={styles.screenShareArea}>
-      {(() => {
-        // ★ Props を使用するように変更
-        if (isScreenSharingMyself && localScreenStream) {
-          return (
-            <video
-              // ★ Props の Ref を使用
-              ref={localScreenPreviewRef}
-              // ★ CSS Module を適用
-              className={styles.localScreenPreview}
-              autoPlay
-              playsInline
-              muted // 自分のプレビューはミュート
-            />
-          )
-        } else if (
-          screenSharingPeerId && // 誰かが共有中
-          !isScreenSharingMyself && // 自分ではない
-          remoteScreenStream // リモートストリームがある
-        ) {
-          return (
-            <video
-              // ★ Props の Ref を使用
-              ref={screenVideoRef}
-              // ★ CSS Module を適用
-              className={styles.screenVideo}
-              autoPlay
-              playsInline
-              // リモート画面の音量は CallControlsFooter で制御するので muted は不要
-            />
-          )
-        } else if (
-          screenSharingPeerId && // 誰かが共有中
-          !isScreenSharingMyself && // 自分ではない
-          !remoteScreenStream // まだリモートストリームがない
-        ) {
-          return (
-            // ★ CSS Module を適用
-            <div className={styles.loadingScreenShare}>画面を読み込み中...</div>
-          )
-        } else {
-          // 誰も共有していない
+      {isMultiple && (
+        <div className={styles.layoutToggle}>
+          <button
+            type='button'
+            className={`${styles.layoutButton} ${
+              !isFocusLayout ? styles.activeLayoutButton : ''
+            }`}
+            onClick={() => setLayout('grid')}
+            title='並べて表示'
+            aria-pressed={!isFocusLayout}
+          >
+            <FiGrid />
+          </button>
+          <button
+            type='button'
+            className={`${styles.layoutButton} ${
+              isFocusLayout ? styles.activeLayoutButton : ''
+            }`}
+            onClick={() => setLayout('focus')}
+            title='1 人を大きく表示'
+            aria-pressed={isFocusLayout}
+          >
+            <FiMaximize />
+          </button>
+        </div>
+      )}
+      <div
+        className={`${styles.screenGrid} ${
+          isFocusLayout ? styles.focusLayout : ''
+        }`}
+        style={gridStyle}
+      >
+        {sharers.map(({ peerId, name }) => {
+          const isFocused = isFocusLayout && peerId === focusedPeerId
           return (
-            // ★ CSS Module を適用
-            <div className={styles.noScreenShare}>画面共有はされていません</div>
+            <div
+              key={peerId}
+              className={`${styles.screenTile} ${
+                isFocused ? styles.focusedTile : ''
+              } ${isFocusLayout && !isFocused ? styles.thumbnailTile : ''}`}
+              // 複数人の時は、クリックした人を大きく表示する
+              onClick={
+                isMultiple
+                  ? () => {
+                      setSelectedPeerId(peerId)
+                      setLayout('focus')
+                    }
+                  : undefined
+              }
+            >
+              {renderScreen(peerId)}
+              {isMultiple && (
+                <span className={styles.sharerLabel}>
+                  {peerId === myPeerId ? 'あなた' : name}
+                </span>
+              )}
+            </div>
           )
-        }
-      })()}
+        })}
+      </div>
     </div>
   )
 }
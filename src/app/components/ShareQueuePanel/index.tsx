@@ -0,0 +1,102 @@
+// src/app/components/ShareQueuePanel/index.tsx
+import { useEffect, useState } from 'react'
+import { FiMonitor } from 'react-icons/fi'
+import styles from './styles.module.css'
+
+type ShareQueueEntry = {
+  peerId: string
+  name: string
+}
+
+type ShareQueuePanelProps = {
+  entries: ShareQueueEntry[] // 並んだ順
+  myPeerId: string
+  offeredPeerId: string | null
+  offerDeadline: number | null // 順番が来た人が共有を始める期限 (Date.now() の値)
+  onAccept: () => void
+  onLeave: () => void // 順番待ちをやめる (順番が来た時に見送る場合も)
+}
+
+// 期限までの残り秒数
+function secondsUntil(deadline: number | null) {
+  return deadline === null
+    ? 0
+    : Math.max(0, Math.ceil((deadline - Date.now()) / 1000))
+}
+
+// ★ 画面共有の順番待ち (全員に並び順を見せ、順番が来た人には開始/見送りを選んでもらう)
+export default function ShareQueuePanel({
+  entries,
+  myPeerId,
+  offeredPeerId,
+  offerDeadline,
+  onAccept,
+  onLeave,
+}: ShareQueuePanelProps) {
+  const isOfferedToMe = offeredPeerId !== null && offeredPeerId === myPeerId
+  const [secondsLeft, setSecondsLeft] = useState(() =>
+    secondsUntil(offerDeadline)
+  )
+
+  // 順番が来ている間は残り時間を数える
+  useEffect(() => {
+    setSecondsLeft(secondsUntil(offerDeadline))
+    if (!isOfferedToMe) return
+    const timer = setInterval(
+      () => setSecondsLeft(secondsUntil(offerDeadline)),
+      1000
+    )
+    return () => clearInterval(timer)
+  }, [isOfferedToMe, offerDeadline])
+
+  if (entries.length === 0) return null
+  const isQueued = entries.some((entry) => entry.peerId === myPeerId)
+
+  return (
+    <div className={styles.shareQueuePanel}>
+      <p className={styles.heading}>画面共有の順番待ち ({entries.length})</p>
+      <ol className={styles.list}>
+        {entries.map((entry) => (
+          <li
+            key={entry.peerId}
+            className={`${styles.entry} ${entry.peerId === offeredPeerId ? styles.offeredEntry : ''}`}
+          >
+            <span className={styles.name} title={entry.name}>
+              {entry.name}
+              {entry.peerId === myPeerId && ' (あなた)'}
+            </span>
+            {entry.peerId === offeredPeerId && (
+              <FiMonitor className={styles.offeredIcon} aria-label='順番' />
+            )}
+          </li>
+        ))}
+      </ol>
+      {isOfferedToMe ? (
+        <div className={styles.offer} role='alert'>
+          <span className={styles.offerMessage}>
+            あなたの番です (残り {secondsLeft} 秒)
+          </span>
+          <div className={styles.actions}>
+            <button
+              className={`${styles.actionButton} ${styles.acceptButton}`}
+              onClick={onAccept}
+            >
+              共有を開始
+            </button>
+            <button className={styles.actionButton} onClick={onLeave}>
+              見送る
+            </button>
+          </div>
+        </div>
+      ) : (
+        isQueued && (
+          <div className={styles.actions}>
+            <button className={styles.actionButton} onClick={onLeave}>
+              順番待ちをやめる
+            </button>
+          </div>
+        )
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,90 @@
+// src/app/components/WaitingRoom/index.tsx
+import { useEffect } from 'react'
+import { io } from 'socket.io-client'
+import {
+  HANDSHAKE_AUTH,
+  VERSION_MISMATCH_MESSAGE,
+  getVersionMismatch,
+  getWebSocketServerUrl,
+  saveAdmissionTicket,
+} from '@/app/roomAccess'
+import type {
+  AppSocket,
+  KnockPayload,
+  JoinAdmittedPayload,
+  JoinRejectedPayload,
+} from '@/app/type'
+import styles from './styles.module.css'
+
+type WaitingRoomProps = {
+  roomCode: string
+  passcode: string
+  onAdmitted: () => void // ホストに許可された (チケットは保存済み)
+  onRejected: (payload: JoinRejectedPayload) => void // 拒否された / 部屋が無くなった
+  onConnectionError: (message: string) => void // サーバーに繋がらなかった (ホストの拒否ではない)
+  onCancel: () => void // 自分で取り下げる
+}
+
+// ★ 承認制の部屋で、ホストの許可を待つ画面
+// CallScreen とは別の一時的な接続でノックし、許可されたらチケットを受け取って切断する
+export default function WaitingRoom({
+  roomCode,
+  passcode,
+  onAdmitted,
+  onRejected,
+  onConnectionError,
+  onCancel,
+}: WaitingRoomProps) {
+  useEffect(() => {
+    const socket: AppSocket = io(getWebSocketServerUrl(), {
+      auth: HANDSHAKE_AUTH,
+      reconnection: false,
+    })
+
+    socket.on('connect', () => {
+      const payload: KnockPayload = {
+        roomCode,
+        name: localStorage.getItem('my_name') || '',
+        passcode: passcode || undefined,
+      }
+      console.log('[WaitingRoom] Knocking:', payload)
+      socket.emit('join-room', payload)
+    })
+    socket.on('join-pending', () => {
+      console.log('[WaitingRoom] Waiting for host approval...')
+    })
+    socket.on('join-admitted', (payload: JoinAdmittedPayload) => {
+      saveAdmissionTicket(roomCode, payload.ticket)
+      socket.disconnect()
+      onAdmitted()
+    })
+    socket.on('join-rejected', (payload: JoinRejectedPayload) => {
+      socket.disconnect()
+      onRejected(payload)
+    })
+    socket.on('connect_error', (error) => {
+      console.error('[WaitingRoom] Connection error:', error)
+      // アプリが古いだけなら再読み込みを促す (roomAccess の一時接続と同じ扱い)
+      onConnectionError(
+        getVersionMismatch(error)
+          ? VERSION_MISMATCH_MESSAGE
+          : 'サーバー接続エラー'
+      )
+    })
+
+    // 画面を離れたら切断 (= サーバー側でリクエストが取り下げられる)
+    return () => {
+      socket.disconnect()
+    }
+  }, [roomCode, passcode, onAdmitted, onRejected, onConnectionError])
+
+  return (
+    <div className={styles.waitingRoom}>
+      <div className={styles.spinner} aria-hidden='true' />
+      <p className={styles.message}>ホストの承認を待っています...</p>
+      <button className={styles.cancelButton} onClick={onCancel}>
+        キャンセル
+      </button>
+    </div>
+  )
+}
@@ -1,14 +1,19 @@
 // src/app/hooks/usePeerConnection.ts
 import { useState, useEffect, useRef, useCallback } from 'react'
-import { Socket } from 'socket.io-client'
 import { PeerManager, type InitPeerOptions } from '../components/PeerManager'
-import type { Participant } from '../type'
+import type {
+  AppSocket,
+  InitiateScreenSharePayload,
+  Participant,
+  StartShareResponse,
+} from '../type'
 
 // --- インターフェース定義  ---
 type UsePeerConnectionOptions = {
   roomCode: string | undefined
   myName: string
-  socket: Socket | null
+  socket: AppSocket | null
+  sessionToken?: string // リロード前のセッショントークン (再接続の猶予中に同じ Peer ID で席へ戻るため)
   onRemoteStream: (stream: MediaStream, peerId: string) => void
   onParticipantUpdate: (
     participantData: Partial<Participant> & { id: string }
@@ -23,6 +28,7 @@ type UsePeerConnectionReturn = {
   screenStream: MediaStream | null
   callPeer: (targetId: string) => Promise<void>
   sendMuteStatus: (isMuted: boolean) => void
+  sendUserName: (name: string) => void // サーバーが割り当てた表示名を通話相手に伝える
   switchMicrophone: (deviceId: string) => Promise<void>
   startScreenShare: () => Promise<void>
   stopScreenShare: () => Promise<void>
@@ -31,7 +37,8 @@ type UsePeerConnectionReturn = {
 export function usePeerConnection({
   roomCode,
   myName,
-  socket, // socket は PeerManager 内部では使わないが、接続トリガーとして依存配列に残す
+  socket, // シグナリング (Peer ID の発行と offer / answer の中継) に使う
+  sessionToken,
   onRemoteStream,
   onParticipantUpdate,
   onParticipantRemove,
@@ -97,6 +104,7 @@ export function usePeerConnection({
         const peerOptions: InitPeerOptions = {
           roomCode: roomCode,
           socket: socket,
+          sessionToken,
 
           // --- コールバックを PeerManager に渡す ---
           onRemoteStream: (stream, peerId) => {
@@ -137,10 +145,6 @@ export function usePeerConnection({
             if (peerManagerRef.current)
               onParticipantUpdate({ id: peerId, name })
           },
-          onReceiveMuteStatus: (peerId, isMutedStatus) => {
-            if (peerManagerRef.current)
-              onParticipantUpdate({ id: peerId, isMuted: isMutedStatus })
-          },
           onPeerDisconnect: (peerId) => {
             if (peerManagerRef.current) onParticipantRemove(peerId)
           },
@@ -226,14 +230,15 @@ export function usePeerConnection({
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [
     // 依存配列: これらの値が変わったら再接続が必要
+    // ★ socket.connected ではなくインスタンスに依存させ、一時的な切断で Peer を作り直さない
     roomCode,
     myName,
-    socket?.connected,
+    socket,
   ])
 
   // ★★★ サーバーからの画面共有開始要求をリッスンする Effect ★★★
   useEffect(() => {
-    // socket が接続され、PeerJS の準備ができたらリスナーを設定
+    // socket が接続され、Peer ID が発行されたらリスナーを設定
     if (!socket || !isPeerOpen || !peerManagerRef.current) {
       // isPeerOpen が false の場合や manager がない場合は何もしない
       console.log(
@@ -245,9 +250,7 @@ export function usePeerConnection({
 
     const handleInitiateScreenShare = ({
       newPeerId,
-    }: {
-      newPeerId: string
-    }) => {
+    }: InitiateScreenSharePayload) => {
       console.log(
         `[usePeerConnection] Received request to initiate screen share to new peer: ${newPeerId}`
       )
@@ -307,6 +310,10 @@ export function usePeerConnection({
     peerManagerRef.current?.sendMuteStatus(muted)
   }, []) // Ref は依存配列に不要
 
+  const sendUserName = useCallback((name: string) => {
+    peerManagerRef.current?.sendUserName(name)
+  }, [])
+
   const switchMicrophone = useCallback(async (deviceId: string) => {
     console.log(`[usePeerConnection] Switching microphone to: ${deviceId}`)
     try {
@@ -328,27 +335,21 @@ export function usePeerConnection({
 
     try {
       // サーバーに共有開始リクエストを送信し、応答を待つ (Promise 化)
-      const response = await new Promise<{
-        success: boolean
-        message?: string
-      }>((resolve) => {
+      const response = await new Promise<StartShareResponse>((resolve) => {
         // タイムアウト処理を追加 (例: 10秒)
         const timeoutId = setTimeout(() => {
           console.error('[usePeerConnection] request-start-share timed out.')
           resolve({ success: false, message: 'Server response timed out.' })
         }, 10000) // 10秒
 
-        socket.emit(
-          'request-start-share',
-          (res: { success: boolean; message?: string }) => {
-            clearTimeout(timeoutId) // タイムアウトをクリア
-            console.log(
-              '[usePeerConnection] Received response for request-start-share:',
-              res
-            )
-            resolve(res)
-          }
-        )
+        socket.emit('request-start-share', (res: StartShareResponse) => {
+          clearTimeout(timeoutId) // タイムアウトをクリア
+          console.log(
+            '[usePeerConnection] Received response for request-start-share:',
+            res
+          )
+          resolve(res)
+        })
       })
 
       // サーバーから許可が得られなかった場合
@@ -358,7 +359,12 @@ export function usePeerConnection({
           response.message
         )
         // ユーザーに分かりやすいエラーメッセージを投げる
-        throw new Error(response.message || '他のユーザーが画面共有中です。')
+        // (SHARE_BUSY は押した直後に他の人が始めて枠が埋まった場合など。順番待ちには並べる)
+        throw new Error(
+          response.error === 'SHARE_BUSY'
+            ? '同時に画面共有できる人数に達しています。順番待ちに並んでください。'
+            : response.message || '他のユーザーが画面共有中です。'
+        )
       }
 
       // 許可が得られたら PeerManager の共有開始処理を呼び出す
@@ -399,6 +405,7 @@ export function usePeerConnection({
     screenStream,
     callPeer,
     sendMuteStatus,
+    sendUserName,
     switchMicrophone,
     startScreenShare,
     stopScreenShare,
@@ -1,27 +1,53 @@
 // src/app/hooks/useWebSocket.ts
 import { useState, useEffect, useRef, useCallback } from 'react'
-import io, { Socket } from 'socket.io-client'
+import io from 'socket.io-client'
 import { useRouter } from 'next/navigation' // エラー時のリダイレクト用にインポート
-
-// WebSocket サーバーの URL
-const WEBSOCKET_SERVER_URL =
-  process.env.NEXT_PUBLIC_WEBSOCKET_SERVER_URL || 'http://localhost:3001'
-console.log(
-  '[useWebSocket] Determined WEBSOCKET_SERVER_URL:',
-  WEBSOCKET_SERVER_URL
-)
+import {
+  HANDSHAKE_AUTH,
+  getVersionMismatch,
+  getWebSocketServerUrl,
+} from '../roomAccess'
 
 // --- 型定義
 import type {
   RoomStatePayload,
   UserJoinedPayload,
+  UserLeftPayload,
+  ParticipantUpdatedPayload,
   ScreenShareStatusPayload,
+  ShareQueuePayload,
+  ShareQueueResponse,
   JoinRoomPayload,
+  JoinRoomOptions,
+  JoinRejectedPayload,
+  JoinRequestPayload,
+  JoinRequestCancelledPayload,
+  HostChangedPayload,
+  RoomLockStatusPayload,
+  RoomClosedPayload,
+  MaintenanceNoticePayload,
+  ServerRestartingPayload,
+  SessionReplacedPayload,
+  ProtocolErrorPayload,
+  VersionMismatchData,
+  HostActionResponse,
+  AppSocket,
   DisconnectReason, // Socket.DisconnectReason のエイリアスをインポート
 } from '../type' // 仮のパス
 
 // --- ここまで型定義 ---
 
+// ホストだけが送れるイベント (応答はどれも HostActionResponse)
+type HostActionEvent =
+  'kick-participant' | 'admit' | 'deny' | 'lock-room' | 'unlock-room'
+type TimeoutSocket = ReturnType<AppSocket['timeout']>
+type HostActionAck = (err: Error, response: HostActionResponse) => void
+// 画面共有の順番待ちに並ぶ/抜ける (応答はどちらも ShareQueueResponse)
+type ShareQueueEvent = 'join-share-queue' | 'leave-share-queue'
+
+// サーバーの再起動後、全員が同時に繋ぎ直さないよう再接続をずらす幅
+const RESTART_RECONNECT_JITTER_MS = 5000
+
 // --- フックの Props の型定義 ---
 type UseWebSocketProps = {
   roomCode: string | undefined
@@ -29,16 +55,42 @@ type UseWebSocketProps = {
   onRoomState: (payload: RoomStatePayload) => void
   onUserJoined: (payload: UserJoinedPayload) => void
   onUserLeft: (peerId: string) => void
+  onParticipantUpdated?: (payload: ParticipantUpdatedPayload) => void // 参加者のミュート・画面共有の状態が変わった
   onScreenShareStatus: (payload: ScreenShareStatusPayload) => void
+  onShareQueueUpdated?: (payload: ShareQueuePayload) => void // 画面共有の順番待ちが変わった
+  onShareOfferExpired?: () => void // 順番が来たのに共有を始めなかったので、順番待ちから外れた
+  onHostChanged: (payload: HostChangedPayload) => void
+  onKicked: () => void
+  onSessionReplaced?: (payload: SessionReplacedPayload) => void // 別のタブや端末で同じ席に入り直した (この接続は切断される)
+  onJoinRejected: (payload: JoinRejectedPayload) => void // 定員オーバーなどで入室を拒否された
+  onJoinRequest: (payload: JoinRequestPayload) => void // ホスト用: 待合室からの入室リクエスト
+  onJoinRequestCancelled: (payload: JoinRequestCancelledPayload) => void // ホスト用: リクエストの取り下げ
+  onRoomLockStatus: (payload: RoomLockStatusPayload) => void // 部屋のロック状態が変わった
+  onRoomClosed: (payload: RoomClosedPayload) => void // 運用者が部屋を閉じた
+  onMaintenanceNotice: (payload: MaintenanceNoticePayload) => void // 運用者からのお知らせ
+  onServerRestarting?: (payload: ServerRestartingPayload) => void // サーバーが再起動する (再起動後に自動で繋ぎ直す)
   // エラー時の処理も Props で受け取る (オプション)
   onConnectError?: (error: Error) => void
+  onVersionMismatch?: (data: VersionMismatchData) => void // サーバーとプロトコルのバージョンが合わない (再読み込みが必要)
   onDisconnect?: (reason: DisconnectReason) => void
+  onReconnect?: () => void // 一時的な切断から自動で再接続した (join-room の再送が必要)
 }
 
 // --- フックの戻り値の型定義 ---
 interface UseWebSocketReturn {
-  socketInstance: Socket | null
-  emitJoinRoom: (peerId: string, name: string) => void // join-room を emit する関数
+  socketInstance: AppSocket | null
+  emitJoinRoom: (
+    peerId: string,
+    name: string,
+    options?: JoinRoomOptions
+  ) => void // join-room を emit する関数
+  emitKickParticipant: (peerId: string) => Promise<HostActionResponse> // ホスト用: 参加者をキック
+  emitAdmitJoinRequest: (requestId: string) => Promise<HostActionResponse> // ホスト用: 入室を許可
+  emitDenyJoinRequest: (requestId: string) => Promise<HostActionResponse> // ホスト用: 入室を拒否
+  emitSetRoomLock: (isLocked: boolean) => Promise<HostActionResponse> // ホスト用: 部屋のロック/解除
+  emitJoinShareQueue: () => Promise<ShareQueueResponse> // 画面共有の順番待ちに並ぶ
+  emitLeaveShareQueue: () => Promise<ShareQueueResponse> // 順番待ちをやめる (順番が来た時に見送る場合も)
+  emitSetMute: (isMuted: boolean) => void // 自分のミュート状態をサーバーに知らせる
 }
 
 export function useWebSocket({
@@ -46,30 +98,68 @@ export function useWebSocket({
   onRoomState,
   onUserJoined,
   onUserLeft,
+  onParticipantUpdated,
   onScreenShareStatus,
+  onShareQueueUpdated,
+  onShareOfferExpired,
+  onHostChanged,
+  onKicked,
+  onSessionReplaced,
+  onJoinRejected,
+  onJoinRequest,
+  onJoinRequestCancelled,
+  onRoomLockStatus,
+  onRoomClosed,
+  onMaintenanceNotice,
+  onServerRestarting,
   onConnectError,
+  onVersionMismatch,
   onDisconnect,
+  onReconnect,
 }: UseWebSocketProps): UseWebSocketReturn {
-  const socketRef = useRef<Socket | null>(null)
-  const [socketInstance, setSocketInstance] = useState<Socket | null>(null)
+  const socketRef = useRef<AppSocket | null>(null)
+  const [socketInstance, setSocketInstance] = useState<AppSocket | null>(null)
 
   // ★ コールバック関数を保持するための Ref を追加
   const onConnectErrorRef = useRef(onConnectError)
+  const onVersionMismatchRef = useRef(onVersionMismatch)
   const onDisconnectRef = useRef(onDisconnect)
+  const onReconnectRef = useRef(onReconnect)
   const onRoomStateRef = useRef(onRoomState)
   const onUserJoinedRef = useRef(onUserJoined)
   const onUserLeftRef = useRef(onUserLeft)
+  const onParticipantUpdatedRef = useRef(onParticipantUpdated)
   const onScreenShareStatusRef = useRef(onScreenShareStatus)
+  const onShareQueueUpdatedRef = useRef(onShareQueueUpdated)
+  const onShareOfferExpiredRef = useRef(onShareOfferExpired)
+  const onHostChangedRef = useRef(onHostChanged)
+  const onKickedRef = useRef(onKicked)
+  const onSessionReplacedRef = useRef(onSessionReplaced)
+  const onJoinRejectedRef = useRef(onJoinRejected)
+  const onJoinRequestRef = useRef(onJoinRequest)
+  const onJoinRequestCancelledRef = useRef(onJoinRequestCancelled)
+  const onRoomLockStatusRef = useRef(onRoomLockStatus)
+  const onRoomClosedRef = useRef(onRoomClosed)
+  const onMaintenanceNoticeRef = useRef(onMaintenanceNotice)
+  const onServerRestartingRef = useRef(onServerRestarting)
 
   // ★ Props の関数が変わったら Ref を更新する Effect を追加
   useEffect(() => {
     onConnectErrorRef.current = onConnectError
   }, [onConnectError])
 
+  useEffect(() => {
+    onVersionMismatchRef.current = onVersionMismatch
+  }, [onVersionMismatch])
+
   useEffect(() => {
     onDisconnectRef.current = onDisconnect
   }, [onDisconnect])
 
+  useEffect(() => {
+    onReconnectRef.current = onReconnect
+  }, [onReconnect])
+
   useEffect(() => {
     onRoomStateRef.current = onRoomState
   }, [onRoomState])
@@ -79,9 +169,48 @@ export function useWebSocket({
   useEffect(() => {
     onUserLeftRef.current = onUserLeft
   }, [onUserLeft])
+  useEffect(() => {
+    onParticipantUpdatedRef.current = onParticipantUpdated
+  }, [onParticipantUpdated])
   useEffect(() => {
     onScreenShareStatusRef.current = onScreenShareStatus
   }, [onScreenShareStatus])
+  useEffect(() => {
+    onShareQueueUpdatedRef.current = onShareQueueUpdated
+  }, [onShareQueueUpdated])
+  useEffect(() => {
+    onShareOfferExpiredRef.current = onShareOfferExpired
+  }, [onShareOfferExpired])
+  useEffect(() => {
+    onHostChangedRef.current = onHostChanged
+  }, [onHostChanged])
+  useEffect(() => {
+    onKickedRef.current = onKicked
+  }, [onKicked])
+  useEffect(() => {
+    onSessionReplacedRef.current = onSessionReplaced
+  }, [onSessionReplaced])
+  useEffect(() => {
+    onJoinRejectedRef.current = onJoinRejected
+  }, [onJoinRejected])
+  useEffect(() => {
+    onJoinRequestRef.current = onJoinRequest
+  }, [onJoinRequest])
+  useEffect(() => {
+    onJoinRequestCancelledRef.current = onJoinRequestCancelled
+  }, [onJoinRequestCancelled])
+  useEffect(() => {
+    onRoomLockStatusRef.current = onRoomLockStatus
+  }, [onRoomLockStatus])
+  useEffect(() => {
+    onRoomClosedRef.current = onRoomClosed
+  }, [onRoomClosed])
+  useEffect(() => {
+    onMaintenanceNoticeRef.current = onMaintenanceNotice
+  }, [onMaintenanceNotice])
+  useEffect(() => {
+    onServerRestartingRef.current = onServerRestarting
+  }, [onServerRestarting])
 
   // --- WebSocket 接続 Effect (CallScreen から移動) ---
   useEffect(() => {
@@ -105,14 +234,25 @@ export function useWebSocket({
     }
 
     console.log('[useWebSocket] Initializing WebSocket connection...')
-    const socket = io(WEBSOCKET_SERVER_URL)
+    const websocketServerUrl = getWebSocketServerUrl()
+    console.log('[useWebSocket] Connecting to', websocketServerUrl)
+    const socket: AppSocket = io(websocketServerUrl, { auth: HANDSHAKE_AUTH })
     socketRef.current = socket // Ref に保持
 
+    let hasConnected = false // 2 回目以降の connect は自動再接続
+    // ★ サーバーの再起動を待っている間のタイマー (切断しても状態を保持する)
+    let restartReconnectTimer: ReturnType<typeof setTimeout> | null = null
     socket.on('connect', () => {
       console.log(
         '★★★ [useWebSocket] WebSocket connected! Socket ID:',
         socket.id
       )
+      restartReconnectTimer = null
+      if (hasConnected) {
+        onReconnectRef.current?.()
+        return
+      }
+      hasConnected = true
       if (isMounted.current) {
         setSocketInstance(socket) // State を更新して外部に通知
       }
@@ -120,10 +260,18 @@ export function useWebSocket({
 
     socket.on('connect_error', (error) => {
       console.error('[useWebSocket] WebSocket connection error:', error)
+      // ★ 一度繋がった後の再接続中 (サーバーの再起動待ちなど) は、socket.io が繋ぎ直すまで待つ
+      if (hasConnected && socket.active) return
       socketRef.current = null // Ref をクリア
       if (isMounted.current) {
         setSocketInstance(null) // State をクリア
       }
+      // ★ バージョンが合わない場合は再接続しても繋がらないので、再読み込みを促してもらう
+      const versionMismatch = getVersionMismatch(error)
+      if (versionMismatch) {
+        onVersionMismatchRef.current?.(versionMismatch)
+        return
+      }
       // ↓↓↓ Ref 経由でコールバックを呼び出す ↓↓↓
       onConnectErrorRef.current?.(error)
       // alert('サーバーとの接続に失敗しました。'); // フック内での alert は避ける
@@ -131,6 +279,12 @@ export function useWebSocket({
 
     socket.on('disconnect', (reason) => {
       console.log('[useWebSocket] WebSocket disconnected:', reason)
+      // ★ 回線断などは socket.io が自動で再接続するので、socketInstance を保持して通話を続ける
+      //   (サーバーは猶予時間の間、席を残している)
+      if (socket.active || restartReconnectTimer) {
+        console.log('[useWebSocket] Waiting for automatic reconnection...')
+        return
+      }
       if (isMounted.current) {
         setSocketInstance(null) // State をクリア
       }
@@ -139,9 +293,22 @@ export function useWebSocket({
       socketRef.current = null
     })
 
+    // ★ サーバーが再起動する場合は一度切断し、再起動が終わる頃に繋ぎ直す
+    //   (再接続すると onReconnect で部屋に戻る。席はサーバーが猶予中として残している)
+    socket.on('server-restarting', (payload) => {
+      console.log('[useWebSocket] Server is restarting:', payload)
+      onServerRestartingRef.current?.(payload)
+      if (restartReconnectTimer) return
+      const delayMs =
+        payload.expectedDowntimeMs + Math.random() * RESTART_RECONNECT_JITTER_MS
+      restartReconnectTimer = setTimeout(() => socket.connect(), delayMs)
+      socket.disconnect()
+    })
+
     // クリーンアップ関数
     return () => {
       isMounted.current = false // アンマウント状態に
+      if (restartReconnectTimer) clearTimeout(restartReconnectTimer)
       console.log('[useWebSocket Connection useEffect] Cleaning up...')
       // ★ アンマウント時に切断処理を追加
       if (socketRef.current) {
@@ -166,15 +333,54 @@ export function useWebSocket({
       onRoomStateRef.current?.(payload)
     const handleUserJoined = (payload: UserJoinedPayload) =>
       onUserJoinedRef.current?.(payload)
-    const handleUserLeft = (peerId: string) => onUserLeftRef.current?.(peerId)
+    const handleUserLeft = (payload: UserLeftPayload) =>
+      onUserLeftRef.current?.(payload.peerId)
+    const handleParticipantUpdated = (payload: ParticipantUpdatedPayload) =>
+      onParticipantUpdatedRef.current?.(payload)
     const handleScreenShareStatus = (payload: ScreenShareStatusPayload) =>
       onScreenShareStatusRef.current?.(payload)
+    const handleShareQueueUpdated = (payload: ShareQueuePayload) =>
+      onShareQueueUpdatedRef.current?.(payload)
+    const handleShareOfferExpired = () => onShareOfferExpiredRef.current?.()
+    const handleHostChanged = (payload: HostChangedPayload) =>
+      onHostChangedRef.current?.(payload)
+    const handleKicked = () => onKickedRef.current?.()
+    const handleSessionReplaced = (payload: SessionReplacedPayload) =>
+      onSessionReplacedRef.current?.(payload)
+    const handleJoinRejected = (payload: JoinRejectedPayload) =>
+      onJoinRejectedRef.current?.(payload)
+    const handleJoinRequest = (payload: JoinRequestPayload) =>
+      onJoinRequestRef.current?.(payload)
+    const handleJoinRequestCancelled = (payload: JoinRequestCancelledPayload) =>
+      onJoinRequestCancelledRef.current?.(payload)
+    const handleRoomLockStatus = (payload: RoomLockStatusPayload) =>
+      onRoomLockStatusRef.current?.(payload)
+    const handleRoomClosed = (payload: RoomClosedPayload) =>
+      onRoomClosedRef.current?.(payload)
+    const handleMaintenanceNotice = (payload: MaintenanceNoticePayload) =>
+      onMaintenanceNoticeRef.current?.(payload)
+    // ペイロードの形式が違うとサーバーに拒否された (実装の食い違いなので記録だけ)
+    const handleProtocolError = (payload: ProtocolErrorPayload) =>
+      console.error('[useWebSocket] Server rejected a payload:', payload)
 
     // ラッパー関数をリスナーとして登録
     socketInstance.on('room-state', handleRoomState)
     socketInstance.on('user-joined', handleUserJoined)
     socketInstance.on('user-left', handleUserLeft)
+    socketInstance.on('participant-updated', handleParticipantUpdated)
     socketInstance.on('screen-share-status', handleScreenShareStatus)
+    socketInstance.on('share-queue-updated', handleShareQueueUpdated)
+    socketInstance.on('share-offer-expired', handleShareOfferExpired)
+    socketInstance.on('host-changed', handleHostChanged)
+    socketInstance.on('kicked', handleKicked)
+    socketInstance.on('session-replaced', handleSessionReplaced)
+    socketInstance.on('join-rejected', handleJoinRejected)
+    socketInstance.on('join-request', handleJoinRequest)
+    socketInstance.on('join-request-cancelled', handleJoinRequestCancelled)
+    socketInstance.on('room-lock-status', handleRoomLockStatus)
+    socketInstance.on('room-closed', handleRoomClosed)
+    socketInstance.on('maintenance-notice', handleMaintenanceNotice)
+    socketInstance.on('protocol-error', handleProtocolError)
 
     return () => {
       console.log('[useWebSocket Listeners useEffect] Cleaning up...')
@@ -182,14 +388,27 @@ export function useWebSocket({
       socketInstance.off('room-state', handleRoomState)
       socketInstance.off('user-joined', handleUserJoined)
       socketInstance.off('user-left', handleUserLeft)
+      socketInstance.off('participant-updated', handleParticipantUpdated)
       socketInstance.off('screen-share-status', handleScreenShareStatus)
+      socketInstance.off('share-queue-updated', handleShareQueueUpdated)
+      socketInstance.off('share-offer-expired', handleShareOfferExpired)
+      socketInstance.off('host-changed', handleHostChanged)
+      socketInstance.off('kicked', handleKicked)
+      socketInstance.off('session-replaced', handleSessionReplaced)
+      socketInstance.off('join-rejected', handleJoinRejected)
+      socketInstance.off('join-request', handleJoinRequest)
+      socketInstance.off('join-request-cancelled', handleJoinRequestCancelled)
+      socketInstance.off('room-lock-status', handleRoomLockStatus)
+      socketInstance.off('room-closed', handleRoomClosed)
+      socketInstance.off('maintenance-notice', handleMaintenanceNotice)
+      socketInstance.off('protocol-error', handleProtocolError)
     }
     // ↓↓↓ 依存配列を socketInstance のみに変更 ↓↓↓
   }, [socketInstance]) // ★ socketInstance のみに依存
 
   // --- join-room を emit する関数 ---
   const emitJoinRoom = useCallback(
-    (peerId: string, name: string) => {
+    (peerId: string, name: string, options: JoinRoomOptions = {}) => {
       if (socketInstance && roomCode && peerId && name) {
         console.log(`[useWebSocket] Emitting join-room with peerId: ${peerId}`)
         const joinPayload: JoinRoomPayload = {
@@ -197,6 +416,13 @@ export function useWebSocket({
           roomCode,
           peerId,
           name,
+          passcode: options.passcode || undefined,
+          maxParticipants: options.maxParticipants,
+          approvalRequired: options.approvalRequired,
+          admissionTicket: options.admissionTicket || undefined,
+          sessionToken: options.sessionToken || undefined,
+          restoreToken: options.restoreToken || undefined,
+          isMuted: options.isMuted,
         }
         socketInstance.emit('join-room', joinPayload)
       } else {
@@ -211,5 +437,113 @@ export function useWebSocket({
     [socketInstance, roomCode]
   ) // ★ socketInstance と roomCode に依存
 
-  return { socketInstance, emitJoinRoom }
+  // --- ★ ホスト操作 (キック・入室許可/拒否) を emit し、応答を待つ ---
+  // send には応答のタイムアウト付きの socket と ack が渡される
+  const emitHostAction = useCallback(
+    (
+      event: HostActionEvent,
+      send: (socket: TimeoutSocket, ack: HostActionAck) => void
+    ) =>
+      new Promise<HostActionResponse>((resolve) => {
+        if (!socketInstance) {
+          resolve({ success: false, message: 'Socket not connected.' })
+          return
+        }
+        console.log(`[useWebSocket] Emitting ${event}`)
+        send(socketInstance.timeout(5000), (err, response) => {
+          if (err) {
+            resolve({
+              success: false,
+              message: 'Server response timed out.',
+            })
+            return
+          }
+          resolve(response)
+        })
+      }),
+    [socketInstance]
+  )
+
+  const emitKickParticipant = useCallback(
+    (peerId: string) =>
+      emitHostAction('kick-participant', (socket, ack) =>
+        socket.emit('kick-participant', { peerId }, ack)
+      ),
+    [emitHostAction]
+  )
+  const emitAdmitJoinRequest = useCallback(
+    (requestId: string) =>
+      emitHostAction('admit', (socket, ack) =>
+        socket.emit('admit', { requestId }, ack)
+      ),
+    [emitHostAction]
+  )
+  const emitDenyJoinRequest = useCallback(
+    (requestId: string) =>
+      emitHostAction('deny', (socket, ack) =>
+        socket.emit('deny', { requestId }, ack)
+      ),
+    [emitHostAction]
+  )
+  const emitSetRoomLock = useCallback(
+    (isLocked: boolean) => {
+      const event = isLocked ? 'lock-room' : 'unlock-room'
+      return emitHostAction(event, (socket, ack) => socket.emit(event, {}, ack))
+    },
+    [emitHostAction]
+  )
+
+  // --- ★ 画面共有の順番待ちに並ぶ/抜ける ---
+  const emitShareQueueAction = useCallback(
+    (event: ShareQueueEvent) =>
+      new Promise<ShareQueueResponse>((resolve) => {
+        if (!socketInstance) {
+          resolve({ success: false, message: 'Socket not connected.' })
+          return
+        }
+        console.log(`[useWebSocket] Emitting ${event}`)
+        socketInstance.timeout(5000).emit(event, (err, response) => {
+          if (err) {
+            resolve({
+              success: false,
+              message: 'Server response timed out.',
+            })
+            return
+          }
+          resolve(response)
+        })
+      }),
+    [socketInstance]
+  )
+
+  const emitJoinShareQueue = useCallback(
+    () => emitShareQueueAction('join-share-queue'),
+    [emitShareQueueAction]
+  )
+  const emitLeaveShareQueue = useCallback(
+    () => emitShareQueueAction('leave-share-queue'),
+    [emitShareQueueAction]
+  )
+
+  // --- ★ ミュート状態をサーバーに知らせる (後から入った人にも room-state で伝わる) ---
+  const emitSetMute = useCallback(
+    (isMuted: boolean) => {
+      if (!socketInstance) return
+      console.log(`[useWebSocket] Emitting set-mute: ${isMuted}`)
+      socketInstance.emit('set-mute', { isMuted })
+    },
+    [socketInstance]
+  )
+
+  return {
+    socketInstance,
+    emitJoinRoom,
+    emitKickParticipant,
+    emitAdmitJoinRequest,
+    emitDenyJoinRequest,
+    emitSetRoomLock,
+    emitJoinShareQueue,
+    emitLeaveShareQueue,
+    emitSetMute,
+  }
 }
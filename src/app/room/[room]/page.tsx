@@ -1,15 +1,137 @@
 'use client'
-import { useParams } from 'next/navigation'
+import { useEffect, useState, useCallback } from 'react'
+import { useParams, useRouter } from 'next/navigation'
 import CallScreen from '@/app/components/CallScreen'
+import PasscodePrompt from '@/app/components/PasscodePrompt'
+import WaitingRoom from '@/app/components/WaitingRoom'
+import {
+  checkRoomExists,
+  loadRoomPasscode,
+  saveRoomPasscode,
+  loadAdmissionTicket,
+  loadRoomSession,
+  JOIN_ERROR_MESSAGES,
+  formatJoinError,
+} from '@/app/roomAccess'
+import type { CheckRoomExistsResponse, JoinRejectedPayload } from '@/app/type'
 import styles from './styles.module.css'
 
+// 入室前の確認状態
+// checking: サーバーに確認中 / needsPasscode: 合言葉の入力待ち
+// waiting: 承認制の部屋でホストの許可待ち
+// rejected: 満員などで入れない / ready: CallScreen を表示
+type AccessState =
+  'checking' | 'needsPasscode' | 'waiting' | 'rejected' | 'ready'
+
 export default function RoomPage() {
   const { room: roomCodeParam } = useParams() // roomCode の取得方法を CallScreen に合わせる
   const roomCode = Array.isArray(roomCodeParam)
     ? roomCodeParam[0]
     : roomCodeParam
+  const router = useRouter()
+
+  const [accessState, setAccessState] = useState<AccessState>('checking')
+  const [passcodeError, setPasscodeError] = useState<string | null>(null)
+  const [rejectedMessage, setRejectedMessage] = useState<string | null>(null)
+  const [isCheckingPasscode, setIsCheckingPasscode] = useState(false)
+  const [passcode, setPasscode] = useState('') // 待合室でのノックにも使う
+
+  // ★ 承認制の部屋は、許可済みチケットが無ければ待合室へ
+  const enterRoom = useCallback(
+    (result: CheckRoomExistsResponse) => {
+      if (
+        roomCode &&
+        result.approvalRequired &&
+        !loadAdmissionTicket(roomCode)
+      ) {
+        setAccessState('waiting')
+      } else {
+        setAccessState('ready')
+      }
+    },
+    [roomCode]
+  )
+
+  // ★ 直接 URL で来た場合も、CallScreen が接続する前に合言葉が必要か確認する
+  useEffect(() => {
+    if (!roomCode) return
+    let cancelled = false
+    const storedPasscode = loadRoomPasscode(roomCode)
+    setPasscode(storedPasscode)
+    // リロードした場合はセッショントークンも送り、元の席に戻れるか確認する
+    checkRoomExists(
+      roomCode,
+      storedPasscode,
+      loadRoomSession(roomCode)?.sessionToken
+    )
+      .then((result) => {
+        if (cancelled) return
+        // 入室可能 (作成者が予約済みのコードに入る場合も含む) ならそのまま通話画面へ
+        if (
+          result.error === 'PASSCODE_REQUIRED' ||
+          result.error === 'INVALID_PASSCODE'
+        ) {
+          setAccessState('needsPasscode')
+        } else if (result.error) {
+          setRejectedMessage(formatJoinError(result.error, result.retryAfterMs))
+          setAccessState('rejected')
+        } else if (!result.exists) {
+          setRejectedMessage(JOIN_ERROR_MESSAGES.ROOM_NOT_FOUND)
+          setAccessState('rejected')
+        } else {
+          enterRoom(result)
+        }
+      })
+      .catch((error) => {
+        if (cancelled) return
+        // 確認できなかった場合は CallScreen 側の接続エラー処理に任せる
+        console.error('[RoomPage] Failed to check room access:', error)
+        setAccessState('ready')
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [roomCode, enterRoom])
+
+  const handlePasscodeSubmit = useCallback(
+    async (submittedPasscode: string) => {
+      if (!roomCode) return
+      setIsCheckingPasscode(true)
+      setPasscodeError(null)
+      try {
+        const result = await checkRoomExists(roomCode, submittedPasscode)
+        if (result.error) {
+          setPasscodeError(formatJoinError(result.error, result.retryAfterMs))
+          return
+        }
+        saveRoomPasscode(roomCode, submittedPasscode)
+        setPasscode(submittedPasscode)
+        enterRoom(result)
+      } catch (error) {
+        console.error('[RoomPage] Failed to check passcode:', error)
+        setPasscodeError(
+          `確認失敗: ${error instanceof Error ? error.message : '不明なエラー'}`
+        )
+      } finally {
+        setIsCheckingPasscode(false)
+      }
+    },
+    [roomCode, enterRoom]
+  )
+
+  const handleAdmitted = useCallback(() => setAccessState('ready'), [])
+
+  const handleWaitingRejected = useCallback((payload: JoinRejectedPayload) => {
+    setRejectedMessage(JOIN_ERROR_MESSAGES[payload.code])
+    setAccessState('rejected')
+  }, [])
 
-  // const router = useRouter()
+  const handleWaitingConnectionError = useCallback((message: string) => {
+    setRejectedMessage(message)
+    setAccessState('rejected')
+  }, [])
+
+  const handleLeaveGate = useCallback(() => router.push('/'), [router])
 
   // roomCode が取得できていない場合は早期リターンまたはエラー表示
   if (!roomCode) {
@@ -17,6 +139,49 @@ export default function RoomPage() {
     return <div>ルームコードを読み込み中... または無効なルームです。</div>
   }
 
+  if (accessState === 'checking') {
+    return <div className={styles.gate}>部屋を確認中...</div>
+  }
+
+  if (accessState === 'rejected') {
+    return (
+      <div className={styles.gate}>
+        <p className={styles.gateMessage}>{rejectedMessage}</p>
+        <button className={styles.gateButton} onClick={() => router.push('/')}>
+          トップに戻る
+        </button>
+      </div>
+    )
+  }
+
+  if (accessState === 'needsPasscode') {
+    return (
+      <div className={styles.gate}>
+        <PasscodePrompt
+          error={passcodeError}
+          isChecking={isCheckingPasscode}
+          onSubmit={handlePasscodeSubmit}
+          onCancel={handleLeaveGate}
+        />
+      </div>
+    )
+  }
+
+  if (accessState === 'waiting') {
+    return (
+      <div className={styles.gate}>
+        <WaitingRoom
+          roomCode={roomCode}
+          passcode={passcode}
+          onAdmitted={handleAdmitted}
+          onRejected={handleWaitingRejected}
+          onConnectionError={handleWaitingConnectionError}
+          onCancel={handleLeaveGate}
+        />
+      </div>
+    )
+  }
+
   return (
     <div className={styles.container}>
       <CallScreen /> {/* ★ CallScreen を使用 (props は不要) */}
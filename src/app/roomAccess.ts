@@ -0,0 +1,250 @@
+// src/app/roomAccess.ts
+import io from 'socket.io-client'
+import type {
+  AppSocket,
+  CheckRoomExistsResponse,
+  ClientToServerEvents,
+  CreateRoomResponse,
+  HandshakeAuth,
+  JoinErrorCode,
+  ProtocolVersion,
+  VersionMismatchData,
+} from './type'
+
+// ★ LAN モード: ページを配信しているマシンで動くシグナリングサーバーに繋ぐ
+// (LAN 内の IP アドレスはビルド時に決まらないので、開いたページのホスト名から URL を組み立てる)
+const IS_LAN_MODE = process.env.NEXT_PUBLIC_LAN_MODE === '1'
+const LAN_SIGNALING_PORT = process.env.NEXT_PUBLIC_LAN_SIGNALING_PORT || '3001'
+
+// WebSocket サーバーの URL (どの接続もここで決める)
+export function getWebSocketServerUrl(): string {
+  if (IS_LAN_MODE && typeof window !== 'undefined') {
+    const { protocol, hostname } = window.location
+    return `${protocol}//${hostname}:${LAN_SIGNALING_PORT}`
+  }
+  return process.env.NEXT_PUBLIC_WEBSOCKET_SERVER_URL || 'http://localhost:3001'
+}
+
+// ★ このクライアントが話すプロトコルのバージョン (server/protocol.js の PROTOCOL_VERSION と同じ値)
+// どの接続でも handshake.auth で送り、サーバーが対応していなければ接続を断られる
+export const PROTOCOL_VERSION: ProtocolVersion = 5
+export const HANDSHAKE_AUTH: HandshakeAuth = {
+  protocolVersion: PROTOCOL_VERSION,
+}
+
+export const VERSION_MISMATCH_MESSAGE =
+  'アプリが更新されました。ページを再読み込みしてください'
+
+// connect_error がバージョンの不一致によるものなら、サーバーが返した情報を取り出す
+export function getVersionMismatch(error: Error): VersionMismatchData | null {
+  const { data } = error as Error & { data?: VersionMismatchData }
+  return data?.code === 'VERSION_MISMATCH' ? data : null
+}
+
+// サーバーの拒否理由をユーザー向けのメッセージに変換
+export const JOIN_ERROR_MESSAGES: Record<JoinErrorCode, string> = {
+  PASSCODE_REQUIRED: '合言葉が必要です',
+  INVALID_PASSCODE: '合言葉が違います',
+  ROOM_FULL: '部屋が満員です',
+  JOIN_DENIED: '入室が許可されませんでした',
+  ROOM_LOCKED: '部屋がロックされています',
+  ROOM_NOT_FOUND: '部屋が見つかりません',
+  RATE_LIMITED: '試行回数が多すぎます',
+  INVALID_PAYLOAD: 'リクエストの内容が正しくありません',
+}
+
+// ★ 拒否理由のメッセージ (制限中なら再試行できるまでの目安も付ける)
+export function formatJoinError(
+  code: JoinErrorCode,
+  retryAfterMs?: number
+): string {
+  const message = JOIN_ERROR_MESSAGES[code]
+  if (code !== 'RATE_LIMITED' || !retryAfterMs) return message
+  const minutes = Math.ceil(retryAfterMs / 60000)
+  return `${message}。${minutes}分ほど待ってからお試しください`
+}
+
+// 部屋の定員 (サーバーの DEFAULT_MAX_PARTICIPANTS / MAX_PARTICIPANTS_LIMIT と合わせる)
+export const DEFAULT_MAX_PARTICIPANTS = 6
+export const MAX_PARTICIPANTS_LIMIT = 10
+
+// --- 合言葉の保存 (タブを閉じたら消えるよう sessionStorage を使う) ---
+const passcodeStorageKey = (roomCode: string) => `room_passcode:${roomCode}`
+
+export function saveRoomPasscode(roomCode: string, passcode: string) {
+  if (passcode) {
+    sessionStorage.setItem(passcodeStorageKey(roomCode), passcode)
+  } else {
+    sessionStorage.removeItem(passcodeStorageKey(roomCode))
+  }
+}
+
+export function loadRoomPasscode(roomCode: string): string {
+  return sessionStorage.getItem(passcodeStorageKey(roomCode)) || ''
+}
+
+// --- 部屋作成時の設定の保存 (作成者の join-room で送る) ---
+export type RoomCreateOptions = {
+  maxParticipants?: number
+  approvalRequired?: boolean
+}
+
+const createOptionsStorageKey = (roomCode: string) =>
+  `room_create_options:${roomCode}`
+
+export function saveRoomCreateOptions(
+  roomCode: string,
+  options: RoomCreateOptions
+) {
+  sessionStorage.setItem(
+    createOptionsStorageKey(roomCode),
+    JSON.stringify(options)
+  )
+}
+
+export function loadRoomCreateOptions(roomCode: string): RoomCreateOptions {
+  try {
+    const stored = sessionStorage.getItem(createOptionsStorageKey(roomCode))
+    return stored ? (JSON.parse(stored) as RoomCreateOptions) : {}
+  } catch {
+    return {}
+  }
+}
+
+// --- 待合室で許可された時の入室チケット (CallScreen の join-room で一度だけ使う) ---
+const admissionTicketStorageKey = (roomCode: string) =>
+  `room_admission_ticket:${roomCode}`
+
+export function saveAdmissionTicket(roomCode: string, ticket: string) {
+  sessionStorage.setItem(admissionTicketStorageKey(roomCode), ticket)
+}
+
+export function loadAdmissionTicket(roomCode: string): string {
+  return sessionStorage.getItem(admissionTicketStorageKey(roomCode)) || ''
+}
+
+export function clearAdmissionTicket(roomCode: string) {
+  sessionStorage.removeItem(admissionTicketStorageKey(roomCode))
+}
+
+// --- 再接続用のセッション (リロードしても同じ peerId で席に戻れるようにする) ---
+export type RoomSession = {
+  peerId: string
+  sessionToken: string
+}
+
+const sessionStorageKey = (roomCode: string) => `room_session:${roomCode}`
+
+export function saveRoomSession(roomCode: string, session: RoomSession) {
+  sessionStorage.setItem(sessionStorageKey(roomCode), JSON.stringify(session))
+}
+
+export function loadRoomSession(roomCode: string): RoomSession | null {
+  try {
+    const stored = sessionStorage.getItem(sessionStorageKey(roomCode))
+    return stored ? (JSON.parse(stored) as RoomSession) : null
+  } catch {
+    return null
+  }
+}
+
+export function clearRoomSession(roomCode: string) {
+  sessionStorage.removeItem(sessionStorageKey(roomCode))
+}
+
+// --- 一時的な WebSocket 接続でサーバーに問い合わせる (通話画面に入る前に使う) ---
+// send で実際のイベントを送る (event はログ用)
+async function requestOverTemporarySocket<T>(
+  event: keyof ClientToServerEvents,
+  send: (socket: AppSocket, callback: (response: T | null) => void) => void,
+  isValidResponse: (response: T | null) => boolean,
+  timeoutMessage: string
+): Promise<T> {
+  let socket: AppSocket | null = null // socket 変数を宣言
+  try {
+    // 一時的に WebSocket 接続を作成
+    socket = io(getWebSocketServerUrl(), {
+      auth: HANDSHAKE_AUTH,
+      reconnection: false, // 自動再接続は不要
+      timeout: 5000, // 5秒でタイムアウト
+    })
+
+    // 接続成功またはエラーを待つ (Promise 化)
+    await new Promise<void>((resolve, reject) => {
+      socket!.once('connect', resolve)
+      socket!.once('connect_error', (err) => {
+        console.error('Temporary socket connection error:', err)
+        if (getVersionMismatch(err)) {
+          reject(new Error(VERSION_MISMATCH_MESSAGE))
+          return
+        }
+        reject(new Error('サーバー接続エラー')) // エラーメッセージを具体的に
+      })
+      // タイムアウト処理 (connect_error が発火しない場合もあるため)
+      const timer = setTimeout(
+        () => reject(new Error('サーバー接続タイムアウト')),
+        5000
+      )
+      socket!.once('connect', () => clearTimeout(timer)) // 接続成功したらタイマー解除
+    })
+
+    console.log(`[roomAccess] Temporarily connected to WebSocket for ${event}.`)
+
+    // サーバーにリクエストして応答を待つ (Promise 化)
+    return await new Promise<T>((resolve, reject) => {
+      send(socket!, (response) => {
+        // コールバックが想定通り呼ばれたかチェック
+        if (response && isValidResponse(response)) {
+          resolve(response)
+        } else {
+          // サーバーからの応答がない、または形式が違う場合
+          reject(new Error('サーバーからの応答が不正です。'))
+        }
+      })
+      // emit に対する応答タイムアウト
+      setTimeout(() => reject(new Error(timeoutMessage)), 5000)
+    })
+  } finally {
+    // 確認が終わったら必ず切断
+    if (socket) {
+      console.log('[roomAccess] Disconnecting temporary WebSocket.')
+      socket.disconnect()
+    }
+  }
+}
+
+// 部屋の存在と入室可否を確認する
+export function checkRoomExists(
+  roomCode: string,
+  passcode?: string,
+  sessionToken?: string
+): Promise<CheckRoomExistsResponse> {
+  return requestOverTemporarySocket<CheckRoomExistsResponse>(
+    'check-room-exists',
+    (socket, callback) =>
+      socket.emit(
+        'check-room-exists',
+        { roomCode, passcode, sessionToken },
+        callback
+      ),
+    (response) => typeof response?.exists === 'boolean',
+    '部屋確認タイムアウト'
+  )
+}
+
+// ★ サーバーに重複しないルームコードを発行してもらう (作成者が入室するまで予約される)
+export async function createRoom(): Promise<string> {
+  const response = await requestOverTemporarySocket<CreateRoomResponse>(
+    'create-room',
+    (socket, callback) => socket.emit('create-room', {}, callback),
+    (response) => typeof response?.success === 'boolean',
+    '部屋作成タイムアウト'
+  )
+  if (response.error === 'RATE_LIMITED') {
+    throw new Error(formatJoinError('RATE_LIMITED', response.retryAfterMs))
+  }
+  if (!response.success || !response.roomCode) {
+    throw new Error(response.message || '部屋を作成できませんでした。')
+  }
+  return response.roomCode
+}
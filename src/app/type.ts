@@ -1,5 +1,10 @@
 // src/app/types.ts
 import type { Socket } from 'socket.io-client' // Socket.DisconnectReason のために必要
+import type {
+  ClientToServerEvents,
+  JoinRoomPayload,
+  ServerToClientEvents,
+} from '../../server/protocol'
 
 // CallScreen や useWebSocket などで共有される型
 
@@ -12,32 +17,70 @@ export type Participant = {
   isSpeaking?: boolean
 }
 
-export type ServerParticipants = {
-  [peerId: string]: string
-}
-
-export type RoomStatePayload = {
-  participants: ServerParticipants
-  currentSharerId: string | null
-}
+// ★ サーバーとやり取りするイベントとペイロードの型は server/protocol.d.ts にまとめてある
+export type {
+  ProtocolVersion,
+  HandshakeAuth,
+  VersionMismatchData,
+  ServerParticipants,
+  ParticipantState,
+  ParticipantStates,
+  ParticipantUpdatedPayload,
+  SetMutePayload,
+  RoomStatePayload,
+  ScreenShareStatusPayload,
+  UserJoinedPayload,
+  UserLeftPayload,
+  HostChangedPayload,
+  RoomLockStatusPayload,
+  RoomClosedPayload,
+  MaintenanceNoticePayload,
+  ServerRestartingPayload,
+  SessionReplacedPayload,
+  HostActionResponse,
+  StartShareResponse,
+  ShareQueuePayload,
+  ShareQueueResponse,
+  JoinRoomPayload,
+  JoinErrorCode,
+  JoinRejectedPayload,
+  CheckRoomExistsPayload,
+  CheckRoomExistsResponse,
+  CreateRoomResponse,
+  JoinRequestPayload,
+  JoinRequestCancelledPayload,
+  JoinAdmittedPayload,
+  InitiateScreenSharePayload,
+  RegisterPeerPayload,
+  RegisterPeerResponse,
+  IceServerConfig,
+  SignalKind,
+  SessionDescriptionPayload,
+  IceCandidatePayload,
+  SignalPayload,
+  RelayedSignalPayload,
+  ProtocolErrorPayload,
+  ClientToServerEvents,
+  ServerToClientEvents,
+} from '../../server/protocol'
 
-export type ScreenShareStatusPayload = {
-  peerId: string
-  isSharing: boolean
-  sharerPeerId: string | null
-}
+// イベントの型が付いた Socket
+export type AppSocket = Socket<ServerToClientEvents, ClientToServerEvents>
 
-export type UserJoinedPayload = {
-  peerId: string
-  name: string
-}
+// 待合室から送る join-room (通話を始める前なので peerId はまだ無い)
+export type KnockPayload = Omit<JoinRoomPayload, 'peerId'>
 
-export type JoinRoomPayload = {
-  // useWebSocket で使用
-  roomCode: string | undefined
-  peerId: string
-  name: string
-}
+// join-room と一緒に送る任意の設定
+export type JoinRoomOptions = Pick<
+  JoinRoomPayload,
+  | 'passcode'
+  | 'maxParticipants'
+  | 'approvalRequired'
+  | 'admissionTicket'
+  | 'sessionToken'
+  | 'restoreToken'
+  | 'isMuted'
+>
 
 export type LocalAudioAnalysisRefs = {
   // CallScreen で使用